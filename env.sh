@@ -1,17 +1,22 @@
 #!/usr/bin/env bash
 
-## # Environment Variable Replacement Script
+## # Runtime Configuration Script
 ##
-## This script is used to replace the environment variables in the web-app files
-## with the values that are set in the environment. This is done to ensure that
-## the web-app is able to connect to the correct backend services.
+## This script writes the runtime configuration of the web-app to `config.json`
+## from the environment variables that start with `APP_ENV_PREFIX`. The web-app
+## fetches `config.json` before it starts, so one image can be configured for
+## each environment without changing the built files.
 ##
-## The script is run as part of the Dockerfile build process and is not intended
-## to be run manually.
+## The prefix is removed from each variable name, for example
+## `AUTHENTICATION_SERVICE_AUTHENTICATION_BASE_URL` sets `AUTHENTICATION_BASE_URL`.
+## Only the settings in `CONFIGURATION_KEYS` are written, other variables with
+## the prefix are skipped with a warning.
+##
+## The script is run when the container starts and is not intended to be run
+## manually.
 ##
 ## ## Reference
 ##
-## - https://stackoverflow.com/questions/415677/how-to-replace-placeholders-in-a-text-file
 ## - https://stackoverflow.com/questions/29613304/how-to-replace-environment-variables-in-a-file-in-docker-container-during-docker
 ## - [Dynamic Environment Variables for Dockerize React Apps ](https://dev.to/sanjayttg/dynamic-environment-variables-for-dockerized-react-apps-5bc5)
 ## - [Setting Up Dynamic Environment Variables with Vite and Docker](https://dev.to/dutchskull/setting-up-dynamic-environment-variables-with-vite-and-docker-5cmj)
@@ -29,10 +34,18 @@ readonly APP_ENV_PREFIX="${APP_ENV_PREFIX:-AUTHENTICATION_SERVICE}"
 readonly TARGET_DIR1="${TARGET_DIR1:-/usr/share/nginx/html/web-app}"
 readonly TARGET_DIR2="${TARGET_DIR2:-/tmpl/dist/web-app/}"
 
-# Avoid shell injection with this function to escape special characters for sed
-escape_sed() {
-  printf '%s\n' "$1" | sed 's/[&/\]/\\&/g'
-}
+# The settings of the web-app, keep in sync with `configurationSchema` in
+# src/configuration.ts
+readonly CONFIGURATION_KEYS=(
+  AUTHENTICATION_BASE_URL
+  LOG_LEVEL
+  IDLE_TIMEOUT_SECONDS
+  IDLE_WARNING_SECONDS
+  GRPC_DEADLINE_MS
+  GRPC_METHOD_DEADLINES_MS
+  GRPC_RETRY_POLICIES
+  PING_INTERVAL_SECONDS
+)
 
 # Check if the script is run with the -n option
 # If so, set the dry_run variable to true
@@ -57,24 +70,44 @@ done
 
 shift $((OPTIND - 1))
 
-# Check if the APP_ENV_PREFIX variable is set
-for i in $(env | grep "^${APP_ENV_PREFIX}"); do
-  key=$(echo "$i" | cut -d '=' -f 1)
-  value=$(echo "$i" | cut -d '=' -f 2-)
+# Escape a value for use in a JSON string
+escape_json() {
+  local value="$1"
+  value="${value//\\/\\\\}"
+  value="${value//\"/\\\"}"
+  printf '%s' "$value"
+}
+
+# Warn about variables with the APP_ENV_PREFIX that are not settings
+while IFS='=' read -r key _; do
+  name="${key#"${APP_ENV_PREFIX}_"}"
 
-  echo "$key=$value"
+  if [[ ! " ${CONFIGURATION_KEYS[*]} " =~ " ${name} " ]]; then
+    echo "Skipping $key, $name is not a configuration setting" >&2
+  fi
+done < <(env | grep "^${APP_ENV_PREFIX}_" || true)
+
+# Build the JSON object from the settings set with the APP_ENV_PREFIX
+config="{"
+separator=""
+for name in "${CONFIGURATION_KEYS[@]}"; do
+  variable="${APP_ENV_PREFIX}_${name}"
+  if [ -z "${!variable+set}" ]; then
+    continue
+  fi
+  value="${!variable}"
 
-  # Escape key and value for use in sed
-  escaped_key=$(escape_sed "$key")
-  escaped_value=$(escape_sed "$value")
+  echo "$name=$value"
 
-  sed_command="s|\${${escaped_key}}|\${escaped_value}|g"
+  config+="${separator}\"$(escape_json "$name")\": \"$(escape_json "$value")\""
+  separator=", "
+done
+config+="}"
 
+for target_dir in "${TARGET_DIR1}" "${TARGET_DIR2}"; do
   if $dry_run; then
-    echo "Dry run: find \"${TARGET_DIR1}\" -type f -exec sed -i -e '${sed_command}' {} \\;"
-    echo "Dry run: find \"${TARGET_DIR2}\" -type f -exec sed -i -e '${sed_command}' {} \\;"
-  else
-    find "${TARGET_DIR1}" -type f -exec sed -i -e "${sed_command}" {} \; || echo "Error replacing in ${TARGET_DIR1}"
-    find "${TARGET_DIR2}" -type f -exec sed -i -e "${sed_command}" {} \; || echo "Error replacing in ${TARGET_DIR2}"
+    echo "Dry run: write ${config} to ${target_dir}/config.json"
+  elif [ -d "${target_dir}" ]; then
+    printf '%s\n' "${config}" > "${target_dir}/config.json"
   fi
 done
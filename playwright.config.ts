@@ -1,11 +1,45 @@
-import { defineConfig } from '@playwright/test';
+//-- ./playwright.config.ts
+
+// # Playwright Configuration
+//
+// The end-to-end tests run against the Vite dev server with the in-memory fake
+// backend, see `src/lib/fakeBackend.ts`, so no authentication service is
+// needed. Each test gets a fresh browser context, and so a freshly seeded fake.
+//
+// https://playwright.dev/docs/test-configuration
+
+import { defineConfig, devices } from "@playwright/test";
+
+// Not the dev server's port, so a running dev server is not reused
+const PORT = 5174;
 
 export default defineConfig({
-  testDir: 'tests',
-  reporter: 'list',
+  testDir: "tests",
+  reporter: "list",
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  // One CI runner is shared with the dev server
+  workers: process.env.CI ? 1 : undefined,
   use: {
-    // Configure the chosen testing framework settings here
-    // Example for Jest:
-    // testFramework: 'jest',
+    baseURL: `http://localhost:${PORT}`,
+    trace: "on-first-retry",
+  },
+  projects: [
+    {
+      name: "chromium",
+      use: { ...devices["Desktop Chrome"] },
+    },
+  ],
+  webServer: {
+    command: `npx vite --host localhost --port ${PORT} --strictPort`,
+    url: `http://localhost:${PORT}`,
+    reuseExistingServer: !process.env.CI,
+    env: {
+      VITE_FAKE_BACKEND: "true",
+      VITE_LOG_LEVEL: "warn",
+      // Keep the tests from being logged out or polling in the background
+      VITE_IDLE_TIMEOUT_SECONDS: "0",
+      VITE_PING_INTERVAL_SECONDS: "0",
+    },
   },
-});
\ No newline at end of file
+});
@@ -10,6 +10,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useAuthentication } from "./components/AuthenticationProvider";
 import { RouterProvider } from "@tanstack/react-router";
 import "@/index.css";
+import { useEffect, useRef } from "react";
 import { router } from "./router";
 
 /**
@@ -41,6 +42,16 @@ export function App() {
   // within the `./src/router.tsx` file.
   const authentication = useAuthentication();
 
+  // Run the route guards again when the user logs in or out, including from
+  // another tab, so the current page matches the new authentication state.
+  const wasAuthenticated = useRef(authentication.isAuthenticated);
+  useEffect(() => {
+    if (wasAuthenticated.current !== authentication.isAuthenticated) {
+      wasAuthenticated.current = authentication.isAuthenticated;
+      router.invalidate();
+    }
+  }, [authentication.isAuthenticated]);
+
   return (
     <QueryClientProvider client={queryClient}>
       <RouterProvider router={router} context={{ authentication }} />
@@ -8,6 +8,7 @@
  */
 
 import { GrpcWebFetchTransport } from "@protobuf-ts/grpcweb-transport";
+import type { RpcInterceptor, RpcTransport } from "@protobuf-ts/runtime-rpc";
 import { configuration } from "./configuration";
 import { AuthenticationServiceClient } from "./lib/grpc/authentication.client";
 import { SessionsServiceClient } from "./lib/grpc/sessions.client";
@@ -16,6 +17,9 @@ import Logger from "./logger";
 import { isValidUrl } from "./lib/utils";
 import { UtilitiesServiceClient } from "./lib/grpc/utilities.client";
 import authInterceptor from "./lib/authInterceptor";
+import refreshInterceptor from "./lib/refreshInterceptor";
+import retryInterceptor from "./lib/retryInterceptor";
+import deadlineInterceptor from "./lib/deadlineInterceptor";
 
 // Import the logger instance
 const log = Logger.getInstance();
@@ -40,6 +44,48 @@ export type UsersClientType = UsersServiceClient;
  */
 export type UtilitiesClientType = UtilitiesServiceClient;
 
+/**
+ * # Access Token Provider
+ *
+ * Returns the current access token, read by the transport for every request.
+ */
+export type AccessTokenProvider = () => string | null | undefined;
+
+/**
+ * The transport answering from the in-memory fake backend. Only imported in
+ * development with `VITE_FAKE_BACKEND=true`.
+ */
+async function fakeTransport(
+  interceptors: RpcInterceptor[]
+): Promise<RpcTransport> {
+  log.warn("Using the fake backend, no calls reach the backend service");
+
+  const { FakeTransport } = await import("./lib/fakeTransport");
+  return new FakeTransport({ interceptors });
+}
+
+/**
+ * The transport to the backend. The fake backend is a build time switch, so
+ * production builds drop its import and seeded credentials.
+ */
+async function createTransport(
+  baseUrl: string,
+  interceptors: RpcInterceptor[]
+): Promise<RpcTransport> {
+  if (import.meta.env.DEV && import.meta.env.VITE_FAKE_BACKEND === "true") {
+    return fakeTransport(interceptors);
+  }
+
+  return new GrpcWebFetchTransport({
+    baseUrl,
+    interceptors,
+    // !!Important!!: I am needed for GRPCWeb to pass the cookie header to the browser
+    fetchInit: {
+      credentials: "include",
+    },
+  });
+}
+
 /**
  * # GRPC Client
  *
@@ -47,9 +93,19 @@ export type UtilitiesClientType = UtilitiesServiceClient;
  * client is responsible for creating the transport layer and the client instances.
  * The client is also responsible for handling the authentication and sessions
  * clients.
+ *
+ * One long-lived transport is shared by every service. The access token is not
+ * fixed when the transport is created, the auth interceptor asks the access
+ * token provider for it on each request, so a login or refresh applies to the
+ * existing clients.
  */
 export class Client {
-  private static instance: Client;
+  private static instance: Promise<Client> | undefined;
+
+  /**
+   * The access token provider, set by the `AuthenticationProvider`
+   */
+  private static accessTokenProvider: AccessTokenProvider = () => undefined;
 
   private authentication: AuthenticationClientType;
   private sessions: SessionsClientType;
@@ -83,12 +139,15 @@ export class Client {
   /**
    * Returns the singleton instance of the client.
    *
-   * @param accessToken? - Optionally set an access token to use in the grpc request
    * @returns {Promise<Client>} The singleton instance of the client.
    */
   public static async getInstance(): Promise<Client> {
+    // Cache the promise so concurrent first calls share one transport
     if (!Client.instance) {
-      Client.instance = await Client.new();
+      Client.instance = Client.new().catch((error) => {
+        Client.instance = undefined;
+        throw error;
+      });
     }
     return Client.instance;
   }
@@ -119,9 +178,30 @@ export class Client {
   }
 
   /**
-   * Spawn a new tonic client based on the tonic server
+   * Set the function the transport calls for the current access token.
+   *
+   * @param provider - Returns the current access token, if any
+   */
+  public static setAccessTokenProvider(provider: AccessTokenProvider) {
+    Client.accessTokenProvider = provider;
+  }
+
+  /**
+   * A transport to the backend without the retries and circuit breaker, so a
+   * call shows whether the backend answers right now. Used by the /status
+   * route to check the connection, see `src/lib/diagnostics.ts`.
+   */
+  public static async directTransport(): Promise<RpcTransport> {
+    return createTransport(configuration.AUTHENTICATION_BASE_URL, [
+      deadlineInterceptor(),
+    ]);
+  }
+
+  /**
+   * Spawn a new tonic client based on the tonic server. Services share the
+   * singleton from `getInstance()` rather than spawning their own.
    */
-  public static async new(accessToken?: string): Promise<Client> {
+  public static async new(): Promise<Client> {
     try {
       const baseUrl = configuration.AUTHENTICATION_BASE_URL;
 
@@ -130,17 +210,19 @@ export class Client {
         throw new Error("Invalid authentication base URL");
       }
 
+      // The retry interceptor runs first so each attempt is given a full
+      // deadline and the current token. The refresh interceptor replays calls
+      // rejected for an expired token, it runs after the auth interceptor so
+      // the replay keeps the new token
+      const interceptors = [
+        retryInterceptor(),
+        deadlineInterceptor(),
+        authInterceptor(() => Client.accessTokenProvider()),
+        refreshInterceptor(),
+      ];
+
       // Create a new GRPC transport layer
-      const transport = new GrpcWebFetchTransport({
-        baseUrl,
-        // TODO make this configurable > configuration.GRPC_DEADLINE || 30_000, // Default to 30 seconds
-        deadline: 30_000, // 30 seconds
-        interceptors: [authInterceptor(accessToken)],
-        // !!Important!!: I am needed for GRPCWeb to pass the cookie header to the browser
-        fetchInit: {
-          credentials: "include",
-        },
-      });
+      const transport = await createTransport(baseUrl, interceptors);
 
       log.debug("Transport layer created: ", transport);
 
@@ -152,9 +234,10 @@ export class Client {
         transport
       );
 
+      // The connection is not verified here, a backend that is down must not
+      // stop the application from starting. The /status route pings the
+      // backend instead, see `directTransport()`
       return new Client(authentication, sessions, users, utilities);
-
-      // TODO: Add connection verification with a ping request
     } catch (error) {
       log.error("Error spawning client:", error);
       throw new Error(
@@ -1,6 +1,16 @@
 //-- ./src/components/Header.tsx
 
-import { BadgeCheck, LayoutDashboard, LogOut } from "lucide-react";
+import { useRouter } from "@tanstack/react-router";
+import {
+  BadgeCheck,
+  KeyRound,
+  LayoutDashboard,
+  LogOut,
+  Users,
+} from "lucide-react";
+import { hasRole, type RoleType } from "@/domains/role";
+import { useAuthentication } from "./AuthenticationProvider";
+import { BackendStatusBadge } from "./BackendStatusBadge";
 import Navbar, { type AppMenuItem } from "./Navbar";
 
 // # Application Header
@@ -18,6 +28,16 @@ const app_menu_items: AppMenuItem[] = [
     url: "/account",
     icon: BadgeCheck,
   },
+  {
+    title: "Users",
+    url: "/users",
+    icon: Users,
+  },
+  {
+    title: "Sessions",
+    url: "/sessions",
+    icon: KeyRound,
+  },
   {
     title: "Logout",
     url: "/logout",
@@ -26,10 +46,24 @@ const app_menu_items: AppMenuItem[] = [
 ];
 
 export function AppHeader() {
+  const router = useRouter();
+  const { currentUser } = useAuthentication();
+
+  // Hide the entries whose route does not allow the current user's role
+  const menu_items = app_menu_items.filter((item) => {
+    const route =
+      router.routesByPath[item.url as keyof typeof router.routesByPath];
+    const roles: readonly RoleType[] | undefined =
+      route?.options.staticData?.roles;
+
+    return hasRole(currentUser?.role, roles);
+  });
+
   return (
     <header className="w-full border-b">
       <nav className="flex justify-between items-center p-4 bg-gray-800 text-white">
-        <Navbar app_menu_items={app_menu_items} />
+        <Navbar app_menu_items={menu_items} />
+        <BackendStatusBadge />
       </nav>
     </header>
   );
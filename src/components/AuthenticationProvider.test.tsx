@@ -0,0 +1,240 @@
+import { UserResponse } from "@/lib/grpc/users";
+import { refreshAccessToken } from "@/lib/refreshInterceptor";
+import { mockMethods, recordedCallsTo } from "@/test/transport";
+import { RpcError } from "@protobuf-ts/runtime-rpc";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import AuthenticationProvider, {
+  useAuthentication,
+} from "./AuthenticationProvider";
+
+const userResponse = UserResponse.create({
+  id: "0191f2a0-0000-7000-8000-000000000002",
+  email: "user@example.com",
+  name: "Regular User",
+  role: "user",
+  isActive: true,
+  isVerified: true,
+  createdOn: "2025-04-01T10:00:00Z",
+});
+
+// In an hour, so no scheduled refresh is due during a test
+const EXPIRES_AT = Math.floor(Date.now() / 1000) + 3600;
+
+/**
+ * An unsigned JWT, the name tells the tokens apart
+ */
+function accessToken(name: string): string {
+  const claims = { sub: userResponse.id, exp: EXPIRES_AT };
+
+  return `${btoa(JSON.stringify({ alg: "none" }))}.${btoa(JSON.stringify(claims))}.${name}`;
+}
+
+const session = (name: string) => ({
+  response: { accessToken: accessToken(name), user: userResponse },
+});
+
+const unauthenticated = {
+  response: new RpcError("Refresh token expired", "UNAUTHENTICATED"),
+};
+
+function renderAuthentication() {
+  return renderHook(() => useAuthentication(), {
+    wrapper: AuthenticationProvider,
+  });
+}
+
+describe("AuthenticationProvider", () => {
+  it("restores the session from the refresh cookie", async () => {
+    mockMethods({ Refresh: session("restored") });
+
+    const { result } = renderAuthentication();
+
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.currentUser).toBeUndefined();
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.isAuthenticated).toBe(true);
+    expect(result.current.accessToken).toBe(accessToken("restored"));
+    expect(result.current.currentUser).toMatchObject({
+      email: "user@example.com",
+      role: "user",
+    });
+  });
+
+  it("is signed out when the refresh fails", async () => {
+    mockMethods({ Refresh: unauthenticated });
+
+    const { result } = renderAuthentication();
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.currentUser).toBeNull();
+    expect(result.current.accessToken).toBeNull();
+    expect(result.current.logoutReason).toBeNull();
+  });
+
+  it("shares a refresh in flight when restoring the session", async () => {
+    mockMethods({ Refresh: session("restored") });
+
+    const inFlightRefresh = refreshAccessToken();
+    const { result } = renderAuthentication();
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    await inFlightRefresh;
+
+    expect(recordedCallsTo("Refresh")).toHaveLength(1);
+    expect(result.current.accessToken).toBe(accessToken("restored"));
+  });
+
+  it("tries the restore again when the backend is unreachable", async () => {
+    mockMethods({
+      Refresh: {
+        response: new RpcError("Service unavailable", "UNAVAILABLE"),
+      },
+    });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(recordedCallsTo("Refresh")).toHaveLength(1));
+
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.currentUser).toBeUndefined();
+
+    mockMethods({ Refresh: session("restored") });
+
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true), {
+      timeout: 3_000,
+    });
+    expect(recordedCallsTo("Refresh")).toHaveLength(2);
+    expect(result.current.logoutReason).toBeNull();
+  });
+
+  it("signs in with handleLogin", async () => {
+    mockMethods({ Refresh: unauthenticated, Login: session("login") });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() =>
+      result.current.handleLogin("user@example.com", "password1234")
+    );
+
+    expect(recordedCallsTo("Login")[0]?.input).toEqual({
+      email: "user@example.com",
+      password: "password1234",
+    });
+    expect(result.current.isAuthenticated).toBe(true);
+    expect(result.current.accessToken).toBe(accessToken("login"));
+  });
+
+  it("stays signed out when handleLogin fails", async () => {
+    mockMethods({
+      Refresh: unauthenticated,
+      Login: {
+        response: new RpcError("Invalid email or password", "UNAUTHENTICATED"),
+      },
+    });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() =>
+      expect(
+        result.current.handleLogin("user@example.com", "wrong-password")
+      ).rejects.toMatchObject({
+        name: "AuthenticationServiceError",
+        operation: "login",
+        kind: "unauthenticated",
+      })
+    );
+
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it("signs out with handleLogout", async () => {
+    mockMethods({
+      Refresh: session("restored"),
+      Logout: { response: { success: true, message: "Logged out" } },
+    });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+
+    await act(() => result.current.handleLogout());
+
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.accessToken).toBeNull();
+    expect(result.current.logoutReason).toBeNull();
+  });
+
+  it("signs out in the browser when the backend can not be told", async () => {
+    mockMethods({
+      Refresh: session("restored"),
+      Logout: { response: new RpcError("Unreachable", "UNAVAILABLE") },
+    });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+
+    await act(() => expect(result.current.handleLogout()).rejects.toThrow());
+
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.accessToken).toBeNull();
+  });
+
+  it("keeps the reason of an automatic logout", async () => {
+    mockMethods({
+      Refresh: session("restored"),
+      Logout: { response: { success: true, message: "Logged out" } },
+    });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+
+    await act(() => result.current.handleLogout("idle"));
+
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.logoutReason).toBe("idle");
+  });
+
+  it("signs out of a revoked session without telling the backend", async () => {
+    mockMethods({ Refresh: session("restored") });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+
+    await act(() => result.current.handleLogout("revoked"));
+
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.logoutReason).toBe("revoked");
+    expect(recordedCallsTo("Logout")).toHaveLength(0);
+  });
+
+  it("follows a refresh made by the refresh interceptor", async () => {
+    mockMethods({ Refresh: session("restored") });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+
+    mockMethods({ Refresh: session("refreshed") });
+    await act(() => refreshAccessToken());
+
+    expect(result.current.accessToken).toBe(accessToken("refreshed"));
+  });
+
+  it("expires the session when the refresh interceptor can not refresh", async () => {
+    mockMethods({ Refresh: session("restored") });
+
+    const { result } = renderAuthentication();
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+
+    mockMethods({ Refresh: unauthenticated });
+    await act(() => refreshAccessToken().catch(() => undefined));
+
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.logoutReason).toBe("expired");
+  });
+});
@@ -21,22 +21,45 @@
  */
 
 import { userFromUserResponse, type User } from "@/domains/user";
-import Logger from "@/logger";
+import { isTransientError } from "@/lib/errors";
+import { jwtExpiry } from "@/lib/jwt";
+import {
+  forgetLoginIssuedAt,
+  rememberLoginIssuedAt,
+} from "@/lib/loginIssuedAt";
+import {
+  publishAuthenticationEvent,
+  subscribeToAuthenticationEvents,
+} from "@/lib/authenticationChannel";
 import {
-  sendLoginRequest,
-  sendLogoutRequest,
-  sendRefreshRequest,
-} from "@/services/authentication";
+  refreshAccessToken,
+  subscribeToTokenRefresh,
+} from "@/lib/refreshInterceptor";
+import Logger from "@/logger";
+import { Client } from "@/client";
+import { sendLoginRequest, sendLogoutRequest } from "@/services/authentication";
 import {
   createContext,
   type PropsWithChildren,
   useContext,
   useEffect,
+  useRef,
   useState,
 } from "react";
 
 const log = Logger.getInstance();
 
+/**
+ * # Logout Reason
+ *
+ * Why the session ended other than through the logout page.
+ *
+ *  - `expired` - the access token could not be refreshed.
+ *  - `idle` - the user was inactive for longer than the idle timeout.
+ *  - `revoked` - the user revoked every session, this one included.
+ */
+export type LogoutReason = "expired" | "idle" | "revoked";
+
 type Authentication = {
   /**
    * # Is Loading
@@ -78,6 +101,13 @@ type Authentication = {
    */
   currentUser?: User | null;
 
+  /**
+   * # Logout Reason
+   *
+   * Set when the session ends without the user logging out, `null` otherwise.
+   */
+  logoutReason: LogoutReason | null;
+
   /**
    * # Handle Login
    *
@@ -92,11 +122,13 @@ type Authentication = {
   /**
    * # Handle Logout
    *
-   * Request user logout.
+   * Request user logout. Pass a reason when the session ends other than through
+   * the logout page.
    *
+   * @param reason
    * @returns
    */
-  handleLogout: () => Promise<void>;
+  handleLogout: (reason?: LogoutReason) => Promise<void>;
 };
 
 // eslint-disable-next-line react-refresh/only-export-components
@@ -107,6 +139,22 @@ export const AUTHENTICATION_ERRORS = {
   INVALID_LOGOUT: "Logout request failed.",
 } as const;
 
+/**
+ * How long before the access token expires to refresh it
+ */
+const REFRESH_BEFORE_EXPIRY_MS = 30_000;
+
+/**
+ * Backoff between failed scheduled refreshes, doubling from the minimum
+ */
+const REFRESH_RETRY_MIN_MS = 2_000;
+const REFRESH_RETRY_MAX_MS = 60_000;
+
+/**
+ * The longest delay `setTimeout` accepts, about 24.8 days
+ */
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
 const AuthenticationContext = createContext<Authentication | undefined>(
   undefined
 );
@@ -128,55 +176,209 @@ export default function AuthenticationProvider({
   const [isLoading, setIsLoading] = useState(true);
 
   // Access token used by the backend to verify authorisation.
-  const [accessToken, setAccessToken] = useState<string | null>();
+  const [accessToken, setAccessTokenState] = useState<string | null>();
+
+  // The token read by the shared gRPC transport. Kept in a ref so a new token
+  // applies to the next request straight away, before React re-renders.
+  const accessTokenRef = useRef<string | null | undefined>(undefined);
+
+  function setAccessToken(token: string | null) {
+    accessTokenRef.current = token;
+    setAccessTokenState(token);
+  }
+
+  // Hand the shared gRPC transport the current access token
+  useEffect(() => {
+    Client.setAccessTokenProvider(() => accessTokenRef.current);
+  }, []);
 
   // Current authenticated user
   const [currentUser, setCurrentUser] = useState<User | null>();
 
+  // Why the session ended, if the user did not log out
+  const [logoutReason, setLogoutReason] = useState<LogoutReason | null>(null);
+
   // Is the user authenticated. `!!` is a double negation to convert the value 
   // to a boolean. `undefined` or `null` will be false, anything else will be true.
   const isAuthenticated = !!currentUser;
 
+  // Keep the provider state in step with refreshes made by the refresh
+  // interceptor when an access token expires mid-session.
   useEffect(() => {
-    /**
-     * # Refresh Access Token
-     *
-     * This function relies on the browser sending the http-only cookie to the
-     * authentication service.
-     */
-    async function refreshAccessToken() {
-      log.info("Attempting to refresh the access token.");
+    return subscribeToTokenRefresh({
+      onRefreshed: (response) => {
+        log.info("Access token refreshed.");
 
-      try {
-        setIsLoading(true);
+        setAccessToken(response.accessToken);
 
-        const response = await sendRefreshRequest();
+        if (response.user !== undefined) {
+          const user = userFromUserResponse(response.user);
 
-        // Throw error if response does not contain an access token or user
-        // Protobuf V3 magically assigns types to optional, so check for undefined user
-        if (!response.accessToken || response.user === undefined) {
-          throw new Error(AUTHENTICATION_ERRORS.INVALID_LOGIN);
+          setCurrentUser(user);
+          publishAuthenticationEvent({
+            type: "refresh",
+            session: { accessToken: response.accessToken, user },
+          });
         }
+      },
+      onExpired: () => {
+        // Without an access token there was no session to expire, as when it
+        // is restored on load
+        const hadSession = !!accessTokenRef.current;
 
-        const user = userFromUserResponse(response.user);
+        setAccessToken(null);
+        setCurrentUser(null);
 
-        const { accessToken: token } = response;
+        if (!hadSession) return;
 
-        setAccessToken(token);
-        setCurrentUser(user);
-      } catch {
-        log.error("Refresh access token failed!");
+        log.info("Session expired, logging out.");
 
-        setAccessToken(null);
-        setCurrentUser(null);
-      } finally {
-        setIsLoading(false);
+        setLogoutReason("expired");
+        forgetLoginIssuedAt();
+
+        // The refresh cookie is shared, so the other tabs have expired too
+        publishAuthenticationEvent({ type: "logout" });
+      },
+    });
+  }, []);
+
+  // Restore the session from the refresh cookie on load. The shared refresh
+  // is used, so a call refreshing at the same time does not send a second
+  // request, and the listeners above set the access token and user. A
+  // transient failure says nothing about the session, so the restore is tried
+  // again until the backend answers.
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let isCancelled = false;
+
+    async function restoreSession() {
+      log.info("Attempting to restore the session.");
+
+      try {
+        await refreshAccessToken();
+      } catch (error) {
+        if (isCancelled) return;
+
+        if (isTransientError(error)) {
+          const delay = Math.min(
+            REFRESH_RETRY_MIN_MS * 2 ** attempt,
+            REFRESH_RETRY_MAX_MS
+          );
+          attempt += 1;
+
+          log.warn(`Restoring the session failed, retrying in ${delay}ms`);
+          timer = setTimeout(restoreSession, delay);
+          return;
+        }
       }
+
+      setIsLoading(false);
     }
 
-    refreshAccessToken();
+    restoreSession();
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, []);
+
+  // Follow logins, logouts and refreshes made in other tabs
+  useEffect(() => {
+    return subscribeToAuthenticationEvents((event) => {
+      switch (event.type) {
+        case "login":
+        case "refresh":
+          if (event.session) {
+            setAccessToken(event.session.accessToken);
+            setCurrentUser(event.session.user);
+            setLogoutReason(null);
+          } else if (event.type === "login") {
+            // Without the session, fetch one with the shared refresh cookie.
+            // A refresh elsewhere leaves this tab's access token valid.
+            refreshAccessToken().catch((error) =>
+              log.warn("Refresh after login in another tab failed:", error)
+            );
+          }
+          break;
+        case "logout":
+          setAccessToken(null);
+          setCurrentUser(null);
+          break;
+      }
+    });
   }, []);
 
+  // Refresh the access token shortly before it expires. A successful refresh
+  // changes the access token, which schedules the next refresh.
+  useEffect(() => {
+    if (!accessToken) return;
+
+    const expiresAt = jwtExpiry(accessToken);
+
+    if (!expiresAt) {
+      log.warn("Access token has no expiry, refresh is not scheduled.");
+      return;
+    }
+
+    const refreshAt = expiresAt.getTime() - REFRESH_BEFORE_EXPIRY_MS;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+
+    function schedule(delay: number) {
+      clearTimeout(timer);
+      timer = setTimeout(
+        runRefresh,
+        Math.min(Math.max(delay, 0), MAX_TIMEOUT_MS)
+      );
+    }
+
+    function scheduleBeforeExpiry() {
+      schedule(refreshAt - Date.now());
+    }
+
+    async function runRefresh() {
+      // The online event schedules the refresh again
+      if (!navigator.onLine) return;
+
+      try {
+        await refreshAccessToken();
+      } catch (error) {
+        const delay = Math.min(
+          REFRESH_RETRY_MIN_MS * 2 ** attempt,
+          REFRESH_RETRY_MAX_MS
+        );
+        attempt += 1;
+
+        log.warn(`Scheduled refresh failed, retrying in ${delay}ms:`, error);
+        schedule(delay);
+      }
+    }
+
+    // Timers in background tabs are throttled, and a refresh may have been
+    // skipped while offline, so check again when either comes back
+    function onResume() {
+      if (document.visibilityState === "visible" && navigator.onLine) {
+        attempt = 0;
+        scheduleBeforeExpiry();
+      }
+    }
+
+    log.debug("Access token refresh scheduled before:", expiresAt);
+    scheduleBeforeExpiry();
+
+    document.addEventListener("visibilitychange", onResume);
+    window.addEventListener("online", onResume);
+
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener("visibilitychange", onResume);
+      window.removeEventListener("online", onResume);
+    };
+  }, [accessToken]);
+
   // Log the change in current user state.
   // Remember: React state updates are batched and asynchronous, so logging 
   // immediately after setState will show the old value, not the new one.
@@ -216,6 +418,13 @@ export default function AuthenticationProvider({
 
       setAccessToken(response.accessToken);
       setCurrentUser(currentUser);
+      setLogoutReason(null);
+      rememberLoginIssuedAt(response.accessToken);
+
+      publishAuthenticationEvent({
+        type: "login",
+        session: { accessToken: response.accessToken, user: currentUser },
+      });
 
       log.info("Login request successful for user: ", currentUser.email);
     } catch (error) {
@@ -231,12 +440,33 @@ export default function AuthenticationProvider({
   /**
    * # Handle Logout Request
    *
-   * This function attempts to logout from the authentication service. If successful
-   * it sets the access token and current user to null. Else it throws an error
+   * This function attempts to logout from the authentication service and sets
+   * the access token and current user to null. If the service could not be told
+   * the session still ends in the browser, and the error is thrown.
    */
-  async function handleLogout() {
+  async function handleLogout(reason?: LogoutReason) {
     log.info("Logging out user: ", currentUser?.email);
 
+    function clearSession() {
+      setAccessToken(null);
+      setCurrentUser(null);
+
+      if (reason) {
+        setLogoutReason(reason);
+      }
+
+      forgetLoginIssuedAt();
+      publishAuthenticationEvent({ type: "logout" });
+    }
+
+    // The backend has already ended a revoked session, a logout request would
+    // fail against it
+    if (reason === "revoked") {
+      log.info("Session revoked, logging out.");
+      clearSession();
+      return;
+    }
+
     try {
       setIsLoading(true);
 
@@ -248,10 +478,14 @@ export default function AuthenticationProvider({
 
       log.info("Logout successful for user: {}", currentUser?.email);
 
-      setAccessToken(null);
-      setCurrentUser(null);
+      clearSession();
     } catch (error) {
       log.error("Logout request failed:", error);
+
+      // The session ends in the browser even when the backend could not be
+      // told, the user asked to be logged out
+      clearSession();
+
       throw error;
     } finally {
       setIsLoading(false);
@@ -265,6 +499,7 @@ export default function AuthenticationProvider({
         isAuthenticated,
         accessToken,
         currentUser,
+        logoutReason,
         handleLogin,
         handleLogout,
       }}
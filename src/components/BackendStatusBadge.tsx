@@ -0,0 +1,57 @@
+//-- ./src/components/BackendStatusBadge.tsx
+
+// # Backend Status Badge
+//
+// Shows whether the backend answers pings, with the latency of the last ping.
+// Hovering the badge shows the server's ping message, or why the ping failed.
+
+import { useCircuitState } from "@/lib/circuitBreaker";
+import { errorMessage } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+import { usePingQuery } from "@/queries/ping";
+
+// Function component BackendStatusBadge
+export function BackendStatusBadge() {
+  const { data, error, isError, isPending } = usePingQuery();
+  const circuitState = useCircuitState();
+
+  const isDown = isError || circuitState === "open";
+
+  const label = isPending
+    ? "Checking..."
+    : isDown
+      ? "Unreachable"
+      : `${data?.latencyMs} ms`;
+
+  // While the circuit is open the last ping may still have succeeded
+  const title = isDown
+    ? error
+      ? errorMessage(error)
+      : "The service is unavailable. Please try again shortly."
+    : isPending
+      ? "Checking the backend"
+      : data?.message;
+
+  return (
+    <div
+      role="status"
+      title={title}
+      className="flex items-center gap-2 rounded-full border border-white/20 px-3 py-1 text-xs"
+    >
+      <span
+        aria-hidden
+        className={cn(
+          "h-2 w-2 rounded-full",
+          isPending ? "bg-gray-400" : isDown ? "bg-red-500" : "bg-green-500"
+        )}
+      />
+      <span>
+        <span className="sr-only">Backend status: </span>
+        {label}
+      </span>
+      {!isPending && !isDown && data?.message && (
+        <span className="hidden text-white/70 md:inline">{data.message}</span>
+      )}
+    </div>
+  );
+}
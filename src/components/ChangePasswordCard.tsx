@@ -0,0 +1,229 @@
+//-- ./src/components/ChangePasswordCard.tsx
+
+/**
+ * # Change Password Card
+ *
+ * Account page card for changing the password of the signed in user. The new
+ * password must be entered twice, and the user can choose to sign out of their
+ * other sessions once the password has been changed.
+ */
+
+import { useForm } from "@tanstack/react-form";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { z } from "zod";
+import { useAuthentication } from "@/components/AuthenticationProvider";
+import { FieldErrors } from "@/components/FieldErrors";
+import { Button } from "@/components/shadcn_ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn_ui/card";
+import { Input } from "@/components/shadcn_ui/input";
+import { Label } from "@/components/shadcn_ui/label";
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+} from "@/components/shadcn_ui/alert";
+import { newPasswordSchema } from "@/domains/password";
+import { findCurrentSession } from "@/domains/session";
+import { errorMessage } from "@/lib/errors";
+import { readLoginIssuedAt } from "@/lib/loginIssuedAt";
+import { useUpdatePasswordMutation } from "@/queries/authentication";
+import {
+  useRevokeOtherSessionsMutation,
+  useUserSessionsQuery,
+} from "@/queries/sessions";
+import Logger from "@/logger";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+const changePasswordSchema = z
+  .object({
+    passwordOriginal: z.string().min(1, "Enter your current password"),
+    passwordNew: newPasswordSchema,
+    confirmPassword: z.string(),
+    signOutOthers: z.boolean(),
+  })
+  .refine((values) => values.passwordNew === values.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+export function ChangePasswordCard() {
+  const { currentUser } = useAuthentication();
+
+  const updatePasswordMutation = useUpdatePasswordMutation();
+  const revokeOthersMutation = useRevokeOtherSessionsMutation();
+
+  // Shares the cache with the active sessions card
+  const { data: sessionsData } = useUserSessionsQuery(currentUser?.id);
+  const sessions = sessionsData?.sessions ?? [];
+  const currentSession = findCurrentSession(sessions, readLoginIssuedAt());
+
+  const form = useForm({
+    defaultValues: {
+      passwordOriginal: "",
+      passwordNew: "",
+      confirmPassword: "",
+      signOutOthers: false,
+    },
+    validators: {
+      onChange: changePasswordSchema,
+    },
+    onSubmit: async ({ value, formApi }) => {
+      if (!currentUser) return;
+
+      const response = await updatePasswordMutation
+        .mutateAsync({
+          email: currentUser.email,
+          passwordOriginal: value.passwordOriginal,
+          passwordNew: value.passwordNew,
+        })
+        .catch(() => undefined);
+
+      if (!response?.success) return;
+
+      formApi.reset();
+
+      // Without the current session every active session could be this one
+      if (value.signOutOthers && currentSession) {
+        const otherSessionIds = sessions
+          .filter((s) => s.isActive && s.id !== currentSession.id)
+          .map((s) => s.id);
+
+        log.debug("Signing out other sessions after password change");
+        revokeOthersMutation.mutate(otherSessionIds);
+      }
+    },
+  });
+
+  const response = updatePasswordMutation.data;
+  const error = updatePasswordMutation.error ?? revokeOthersMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Change password</CardTitle>
+        <CardDescription>
+          Update the password for {currentUser?.email}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex max-w-md flex-col gap-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            form.handleSubmit();
+          }}
+        >
+          <form.Field
+            name="passwordOriginal"
+            children={(field) => (
+              <div className="grid gap-3">
+                <Label htmlFor={field.name}>Current password</Label>
+                <Input
+                  id={field.name}
+                  type="password"
+                  autoComplete="current-password"
+                  value={field.state.value}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                />
+                <FieldErrors errors={field.state.meta.errors} />
+              </div>
+            )}
+          />
+          <form.Field
+            name="passwordNew"
+            children={(field) => (
+              <div className="grid gap-3">
+                <Label htmlFor={field.name}>New password</Label>
+                <Input
+                  id={field.name}
+                  type="password"
+                  autoComplete="new-password"
+                  value={field.state.value}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                />
+                <FieldErrors errors={field.state.meta.errors} />
+              </div>
+            )}
+          />
+          <form.Field
+            name="confirmPassword"
+            children={(field) => (
+              <div className="grid gap-3">
+                <Label htmlFor={field.name}>Confirm new password</Label>
+                <Input
+                  id={field.name}
+                  type="password"
+                  autoComplete="new-password"
+                  value={field.state.value}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                />
+                <FieldErrors errors={field.state.meta.errors} />
+              </div>
+            )}
+          />
+          <form.Field
+            name="signOutOthers"
+            children={(field) => (
+              <div className="flex items-center gap-2">
+                <input
+                  id={field.name}
+                  type="checkbox"
+                  className="h-4 w-4"
+                  disabled={!currentSession}
+                  checked={field.state.value && !!currentSession}
+                  onChange={(e) => field.handleChange(e.target.checked)}
+                />
+                <Label htmlFor={field.name}>
+                  Sign out of my other sessions
+                </Label>
+              </div>
+            )}
+          />
+          <form.Subscribe
+            selector={(state) => [state.canSubmit, state.isSubmitting]}
+            children={([canSubmit, isSubmitting]) => (
+              <Button type="submit" disabled={!canSubmit || isSubmitting}>
+                {isSubmitting && <Loader2 className="animate-spin" />}
+                Change password
+              </Button>
+            )}
+          />
+          {response && (
+            <Alert variant={response.success ? "default" : "destructive"}>
+              {response.success ? (
+                <CheckCircle2 className="h-4 w-4" />
+              ) : (
+                <AlertCircle className="h-4 w-4" />
+              )}
+              <AlertTitle>
+                {response.success
+                  ? "Password changed"
+                  : "Password not changed"}
+              </AlertTitle>
+              <AlertDescription>{response.message}</AlertDescription>
+            </Alert>
+          )}
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{errorMessage(error)}</AlertDescription>
+            </Alert>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
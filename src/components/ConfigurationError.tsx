@@ -0,0 +1,41 @@
+//-- ./src/components/ConfigurationError.tsx
+
+// # Configuration Error
+//
+// Shown instead of the application when the configuration is invalid, see
+// `src/configuration.ts`. Rendered outside the router and the authentication
+// provider, so it only depends on the configuration issues.
+
+import "@/index.css";
+import { Settings } from "lucide-react";
+import type { ConfigurationIssue } from "@/configuration";
+
+// Function component ConfigurationError
+export function ConfigurationError({
+  issues,
+}: {
+  issues: ConfigurationIssue[];
+}) {
+  return (
+    <div className="flex min-h-svh flex-col items-center gap-4 p-6 py-10 md:p-10">
+      <Settings className="text-destructive h-10 w-10" />
+      <h1 className="text-2xl font-semibold">Configuration error</h1>
+      <p className="text-muted-foreground max-w-xl text-center">
+        The application cannot start until the configuration is fixed. Set each
+        value in <code>config.json</code>, or as a <code>VITE_</code> prefixed
+        environment variable when building.
+      </p>
+      <ul role="alert" className="grid w-full max-w-xl gap-2 text-sm">
+        {issues.map(({ key, message }) => (
+          <li
+            key={`${key}: ${message}`}
+            className="border-destructive/50 rounded-md border p-3"
+          >
+            <code className="font-semibold">{key}</code>
+            <p className="text-destructive">{message}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
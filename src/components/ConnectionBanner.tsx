@@ -0,0 +1,64 @@
+//-- ./src/components/ConnectionBanner.tsx
+
+// # Connection Banner
+//
+// Shown above every page while the browser is offline or the backend does not
+// answer pings, so a failed request can be told apart from a rejected one, for
+// example a wrong password.
+
+import { useSyncExternalStore } from "react";
+import { useCircuitState } from "@/lib/circuitBreaker";
+import { usePingQuery } from "@/queries/ping";
+import { Link } from "@tanstack/react-router";
+import { Button } from "./shadcn_ui/button";
+
+function subscribeToOnlineStatus(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+// Function component ConnectionBanner
+export function ConnectionBanner() {
+  const isOnline = useSyncExternalStore(
+    subscribeToOnlineStatus,
+    () => navigator.onLine
+  );
+  const { isError, isFetching, refetch } = usePingQuery();
+  const circuitState = useCircuitState();
+
+  const isBackendDown = isError || circuitState === "open";
+
+  if (isOnline && !isBackendDown) return null;
+
+  return (
+    <div
+      role="alert"
+      className="bg-destructive sticky top-0 z-50 flex items-center justify-center gap-4 px-4 py-2 text-sm text-white"
+    >
+      <span>
+        {!isOnline
+          ? "You are offline. Check your internet connection."
+          : "The authentication service is not reachable. Signing in and loading data will fail until it is back."}
+      </span>
+      {isOnline && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-foreground h-7"
+          disabled={isFetching}
+          onClick={() => refetch()}
+        >
+          Retry
+        </Button>
+      )}
+      <Link to="/status" className="underline underline-offset-4">
+        Details
+      </Link>
+    </div>
+  );
+}
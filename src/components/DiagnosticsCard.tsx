@@ -0,0 +1,176 @@
+//-- ./src/components/DiagnosticsCard.tsx
+
+/**
+ * # Diagnostics Card
+ *
+ * Shows whether the backend can be reached from this browser, the resolved
+ * configuration and the build, on the /status route. The report can be copied
+ * and pasted into a support ticket.
+ */
+
+import {
+  CONNECTIVITY_PROBLEM_MESSAGES,
+  formatDiagnosticsReport,
+  type DiagnosticsReport,
+} from "@/lib/diagnostics";
+import { errorMessage } from "@/lib/errors";
+import Logger from "@/logger";
+import { useDiagnosticsQuery } from "@/queries/diagnostics";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "./shadcn_ui/alert";
+import { Button } from "./shadcn_ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "./shadcn_ui/card";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+/**
+ * # Diagnostics Section
+ *
+ * A titled list of name and value pairs.
+ */
+function DiagnosticsSection({
+  title,
+  entries,
+}: {
+  title: string;
+  entries: [string, string][];
+}) {
+  return (
+    <section className="grid gap-2">
+      <h2 className="font-semibold">{title}</h2>
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+        {entries.map(([name, value]) => (
+          <div key={name} className="contents">
+            <dt className="text-muted-foreground">{name}</dt>
+            <dd className="font-mono break-all">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+}
+
+/**
+ * # Connectivity Summary
+ *
+ * The outcome of the ping, and the detected problem when it failed.
+ */
+function ConnectivitySummary({ report }: { report: DiagnosticsReport }) {
+  const { ping } = report;
+
+  return (
+    <section className="grid gap-2">
+      <h2 className="font-semibold">Connectivity</h2>
+      {ping.ok ? (
+        <Alert>
+          <CheckCircle2 />
+          <AlertTitle>The backend is reachable</AlertTitle>
+          <AlertDescription>{ping.message}</AlertDescription>
+        </Alert>
+      ) : (
+        <Alert variant="destructive">
+          <AlertCircle />
+          <AlertTitle>The backend is not reachable</AlertTitle>
+          <AlertDescription>
+            {report.problem
+              ? CONNECTIVITY_PROBLEM_MESSAGES[report.problem]
+              : ping.error?.message}
+          </AlertDescription>
+        </Alert>
+      )}
+      <div className="flex justify-between gap-4 text-sm">
+        <span>Ping</span>
+        <span className="font-mono">
+          {ping.ok
+            ? `${ping.latencyMs} ms`
+            : (ping.error?.code ?? ping.error?.kind)}
+        </span>
+      </div>
+    </section>
+  );
+}
+
+export function DiagnosticsCard() {
+  const { data, error, isFetching, refetch } = useDiagnosticsQuery();
+  const [isCopied, setIsCopied] = useState(false);
+
+  const onCopy = async (report: DiagnosticsReport) => {
+    try {
+      await navigator.clipboard.writeText(formatDiagnosticsReport(report));
+      setIsCopied(true);
+    } catch (error) {
+      log.warn("Unable to copy the diagnostics report:", error);
+    }
+  };
+
+  const onRunAgain = () => {
+    setIsCopied(false);
+    refetch();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">Status</CardTitle>
+        <CardDescription>
+          Checks the connection to the authentication service from this
+          browser. Copy the report into your ticket when asking for help.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        {isFetching && (
+          <div className="text-muted-foreground flex items-center gap-2 text-sm">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Running checks...
+          </div>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle />
+            <AlertTitle>Unable to run the checks</AlertTitle>
+            <AlertDescription>{errorMessage(error)}</AlertDescription>
+          </Alert>
+        )}
+        {data && !isFetching && (
+          <>
+            <ConnectivitySummary report={data} />
+            <DiagnosticsSection
+              title="Configuration"
+              entries={Object.entries(data.configuration)}
+            />
+            <DiagnosticsSection
+              title="Build"
+              entries={[
+                ["Mode", data.build.mode],
+                ["Base path", data.build.basePath],
+                ["Origin", data.build.origin],
+                ["Circuit breaker", data.circuitState],
+                ["Checked", data.createdAt.toLocaleString()],
+              ]}
+            />
+          </>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="outline" disabled={isFetching} onClick={onRunAgain}>
+          Run again
+        </Button>
+        <Button
+          disabled={!data || isFetching}
+          onClick={() => data && onCopy(data)}
+        >
+          {isCopied ? "Copied" : "Copy report"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+//-- ./src/components/FieldErrors.tsx
+
+/**
+ * # Field Errors
+ *
+ * Render the validation errors of a TanStack Form field. Errors from a zod
+ * (standard schema) validator are issue objects with a `message`, while plain
+ * function validators return strings, so both are handled.
+ *
+ * @param errors - The `field.state.meta.errors` array
+ * @returns A list of error messages or nothing if the field is valid
+ */
+export function FieldErrors({ errors }: { errors: unknown[] }) {
+  const messages = errors
+    .map((error) =>
+      typeof error === "string"
+        ? error
+        : (error as { message?: string } | undefined)?.message
+    )
+    .filter((message): message is string => !!message);
+
+  if (!messages.length) {
+    return null;
+  }
+
+  return (
+    <p role="alert" className="text-destructive text-sm">
+      {messages.join(", ")}
+    </p>
+  );
+}
@@ -0,0 +1,25 @@
+//-- ./src/components/Forbidden.tsx
+
+// # Forbidden
+//
+// The 403 page. It is displayed inside the protected layout when the current
+// user's role is not allowed to open the route, see `src/lib/requireRole.ts`.
+
+import { Link } from "@tanstack/react-router";
+import { ShieldAlert } from "lucide-react";
+
+// Function component Forbidden
+export function Forbidden() {
+  return (
+    <div className="flex flex-col items-center gap-4 py-10 text-center">
+      <ShieldAlert className="text-destructive h-10 w-10" />
+      <h1 className="text-2xl font-semibold">403 - Forbidden</h1>
+      <p className="text-muted-foreground">
+        You do not have permission to view this page.
+      </p>
+      <Link to="/" className="underline underline-offset-4">
+        Go home
+      </Link>
+    </div>
+  );
+}
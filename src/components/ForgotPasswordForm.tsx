@@ -0,0 +1,217 @@
+//-- ./src/components/ForgotPasswordForm.tsx
+
+/**
+ * # Forgot Password Form
+ *
+ * Request a password reset email from the authentication service.
+ *
+ * The confirmation shown after submitting is the same whether or not an account
+ * exists for the email, so the form cannot be used to discover accounts. Repeat
+ * submissions are throttled with a cooldown that survives a page reload. The
+ * cooldown starts once the service answered, a request that could not reach it
+ * can be sent again straight away.
+ */
+
+import { useForm } from "@tanstack/react-form";
+import { Link } from "@tanstack/react-router";
+import { AlertCircle, Loader2, MailCheck } from "lucide-react";
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { Button } from "@/components/shadcn_ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn_ui/card";
+import { Input } from "@/components/shadcn_ui/input";
+import { Label } from "@/components/shadcn_ui/label";
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+} from "@/components/shadcn_ui/alert";
+import { FieldErrors } from "@/components/FieldErrors";
+import { errorMessage, isTransientError } from "@/lib/errors";
+import { useResetPasswordMutation } from "@/queries/authentication";
+import Logger from "@/logger";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+const RESET_PASSWORD = {
+  // Time to wait between reset requests
+  COOLDOWN_MS: 60_000,
+  // Session storage key holding the end of the current cooldown
+  STORAGE_KEY: "reset_password_cooldown_until",
+} as const;
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+});
+
+/**
+ * Read the end of the cooldown from session storage, if there is one.
+ */
+function readCooldownUntil(): number {
+  try {
+    return Number(sessionStorage.getItem(RESET_PASSWORD.STORAGE_KEY)) || 0;
+  } catch (e) {
+    log.warn("Session storage not available:", e);
+    return 0;
+  }
+}
+
+/**
+ * Start a new cooldown and persist it to session storage.
+ */
+function startCooldown(): number {
+  const until = Date.now() + RESET_PASSWORD.COOLDOWN_MS;
+  try {
+    sessionStorage.setItem(RESET_PASSWORD.STORAGE_KEY, String(until));
+  } catch (e) {
+    log.warn("Session storage not available:", e);
+  }
+  return until;
+}
+
+export function ForgotPasswordForm({ email = "" }: { email?: string }) {
+  const resetPasswordMutation = useResetPasswordMutation();
+
+  // Email the last request was sent for, used in the confirmation message
+  const [submittedEmail, setSubmittedEmail] = useState<string>();
+
+  // Remaining seconds before another request can be sent
+  const [cooldownUntil, setCooldownUntil] = useState(readCooldownUntil);
+  const [now, setNow] = useState(() => Date.now());
+  const secondsRemaining = Math.max(
+    0,
+    Math.ceil((cooldownUntil - now) / 1000)
+  );
+
+  // Tick once a second while the cooldown is running
+  useEffect(() => {
+    if (cooldownUntil <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= cooldownUntil) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [cooldownUntil]);
+
+  const form = useForm({
+    defaultValues: {
+      email,
+    },
+    validators: {
+      onChange: forgotPasswordSchema,
+    },
+    onSubmit: async ({ value }) => {
+      if (readCooldownUntil() > Date.now()) {
+        log.debug("Reset password request throttled");
+        return;
+      }
+
+      setSubmittedEmail(value.email);
+
+      // The outcome is not shown, only whether the service could be reached
+      try {
+        await resetPasswordMutation.mutateAsync(value.email);
+      } catch (error) {
+        if (isTransientError(error)) return;
+      }
+
+      setCooldownUntil(startCooldown());
+      setNow(Date.now());
+    },
+  });
+
+  // Only a transport failure is reported, server answers stay neutral
+  const isUnreachable =
+    resetPasswordMutation.isError &&
+    isTransientError(resetPasswordMutation.error);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">Forgot your password?</CardTitle>
+        <CardDescription>
+          Enter your email and we will send you a link to reset your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex flex-col gap-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            form.handleSubmit();
+          }}
+        >
+          <form.Field
+            name="email"
+            children={(field) => (
+              <div className="grid gap-3">
+                <Label htmlFor={field.name}>Email</Label>
+                <Input
+                  id={field.name}
+                  type="email"
+                  placeholder="me@example.com"
+                  autoComplete="username email"
+                  value={field.state.value}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                />
+                <FieldErrors errors={field.state.meta.errors} />
+              </div>
+            )}
+          />
+          <form.Subscribe
+            selector={(state) => [state.canSubmit, state.isSubmitting]}
+            children={([canSubmit, isSubmitting]) => (
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!canSubmit || isSubmitting || secondsRemaining > 0}
+              >
+                {isSubmitting && <Loader2 className="animate-spin" />}
+                {secondsRemaining > 0
+                  ? `Send again in ${secondsRemaining}s`
+                  : "Send reset link"}
+              </Button>
+            )}
+          />
+          {isUnreachable ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>
+                {errorMessage(resetPasswordMutation.error)}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            submittedEmail &&
+            !resetPasswordMutation.isPending && (
+              <Alert>
+                <MailCheck className="h-4 w-4" />
+                <AlertTitle>Check your email</AlertTitle>
+                <AlertDescription>
+                  If an account exists for {submittedEmail}, you will receive
+                  an email with instructions to reset your password.
+                </AlertDescription>
+              </Alert>
+            )
+          )}
+        </form>
+      </CardContent>
+      <CardFooter className="justify-center text-sm">
+        <Link to="/login" className="underline underline-offset-4">
+          Back to login
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+}
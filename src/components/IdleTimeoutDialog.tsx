@@ -0,0 +1,168 @@
+//-- ./src/components/IdleTimeoutDialog.tsx
+
+/**
+ * # Idle Timeout Dialog
+ *
+ * Logs the user out after `IDLE_TIMEOUT_SECONDS` without input in the
+ * protected pages. A countdown is shown for the last `IDLE_WARNING_SECONDS`,
+ * and staying signed in refreshes the access token.
+ *
+ * The logout ends the session in every tab, so activity is shared with the
+ * other tabs over the authentication channel. The user is only logged out once
+ * every tab has been idle for the whole timeout.
+ *
+ * The logout sets the `idle` logout reason, which sends the protected layout
+ * to `/logout`.
+ */
+
+import { configuration } from "@/configuration";
+import {
+  publishAuthenticationEvent,
+  subscribeToAuthenticationEvents,
+} from "@/lib/authenticationChannel";
+import { refreshAccessToken } from "@/lib/refreshInterceptor";
+import Logger from "@/logger";
+import { Link } from "@tanstack/react-router";
+import { useEffect, useRef, useState } from "react";
+import { useAuthentication } from "./AuthenticationProvider";
+import { Button } from "./shadcn_ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./shadcn_ui/dialog";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+// Input that counts as the user being active
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+  "wheel",
+] as const;
+
+// Activity is shared with the other tabs at most this often
+const ACTIVITY_SHARE_INTERVAL_MS = 5_000;
+
+export function IdleTimeoutDialog() {
+  const { handleLogout } = useAuthentication();
+
+  const timeoutMs = configuration.IDLE_TIMEOUT_SECONDS * 1000;
+  const warningMs = Math.min(
+    configuration.IDLE_WARNING_SECONDS * 1000,
+    timeoutMs
+  );
+
+  const lastActivityAt = useRef(Date.now());
+  const [remainingMs, setRemainingMs] = useState(timeoutMs);
+
+  const isEnabled = timeoutMs > 0;
+  const isWarning = isEnabled && remainingMs <= warningMs;
+  const isExpired = isEnabled && remainingMs <= 0;
+
+  // Input behind the dialog does not dismiss the warning, the user has to
+  // choose to stay signed in
+  const isWarningRef = useRef(isWarning);
+  isWarningRef.current = isWarning;
+
+  // The provider creates handleLogout on every render, the logout effect only
+  // runs when the timeout expires
+  const handleLogoutRef = useRef(handleLogout);
+  handleLogoutRef.current = handleLogout;
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    let lastSharedAt = 0;
+
+    const onActivity = () => {
+      if (isWarningRef.current) return;
+
+      const now = Date.now();
+      lastActivityAt.current = now;
+
+      if (now - lastSharedAt >= ACTIVITY_SHARE_INTERVAL_MS) {
+        lastSharedAt = now;
+        publishAuthenticationEvent({ type: "activity", at: now });
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, onActivity, { passive: true })
+    );
+
+    // Activity in another tab also dismisses the warning in this one
+    const unsubscribe = subscribeToAuthenticationEvents((event) => {
+      if (event.type === "activity") {
+        lastActivityAt.current = Math.max(lastActivityAt.current, event.at);
+      }
+    });
+
+    const interval = setInterval(() => {
+      setRemainingMs(timeoutMs - (Date.now() - lastActivityAt.current));
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) =>
+        window.removeEventListener(type, onActivity)
+      );
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [isEnabled, timeoutMs]);
+
+  useEffect(() => {
+    if (!isExpired) return;
+
+    log.info("User idle, logging out.");
+
+    handleLogoutRef
+      .current("idle")
+      .catch((error) => log.error("Idle logout request failed:", error));
+  }, [isExpired]);
+
+  const staySignedIn = () => {
+    lastActivityAt.current = Date.now();
+    setRemainingMs(timeoutMs);
+    publishAuthenticationEvent({
+      type: "activity",
+      at: lastActivityAt.current,
+    });
+
+    refreshAccessToken().catch((error) =>
+      log.warn("Refresh when staying signed in failed:", error)
+    );
+  };
+
+  const seconds = Math.max(Math.ceil(remainingMs / 1000), 0);
+
+  return (
+    <Dialog
+      open={isWarning && !isExpired}
+      // Dismissing the dialog counts as staying signed in
+      onOpenChange={(open) => !open && staySignedIn()}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Are you still there?</DialogTitle>
+          <DialogDescription role="timer" aria-live="polite">
+            You'll be signed out in {seconds}s due to inactivity.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" asChild>
+            <Link to="/logout">Sign out now</Link>
+          </Button>
+          <Button onClick={staySignedIn}>Stay signed in</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
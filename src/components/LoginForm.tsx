@@ -28,19 +28,18 @@ import {
   AlertTitle,
 } from "@/components/shadcn_ui/alert";
 import { useAuthentication } from "@/components/AuthenticationProvider";
+import { errorMessage } from "@/lib/errors";
+import { isRedirectHref } from "@/lib/redirect";
 import { cn } from "@/lib/utils";
 import splash_image from "@/assets/images/login_splash1.jpg";
 import Logger from "@/logger";
 import { useState } from "react";
 import { AlertCircle, Loader2 } from "lucide-react";
-import { getRouteApi, useRouter } from "@tanstack/react-router";
+import { getRouteApi, Link, useRouter } from "@tanstack/react-router";
 
 // Import the logger instance
 const log = Logger.getInstance();
 
-// Define allowed redirect paths
-type RedirectPath = "/" | "/account" | "/users";
-
 /**
  * # Login Button
  *
@@ -111,12 +110,12 @@ export function LoginForm({
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Error message component state
-  const [errorMessage, setErrorMessage] = useState<string>("");
+  const [loginError, setLoginError] = useState<string>("");
 
   // Setup Tanstack router for navigation
   const router = useRouter();
   const routeApi = getRouteApi("/_unprotected/login");
-  const routeSearch = routeApi.useSearch() as { redirect?: RedirectPath };
+  const routeSearch = routeApi.useSearch() as { redirect?: string };
 
   // Initialize the form using @tanstack/react-form
   const form = useForm({
@@ -129,7 +128,7 @@ export function LoginForm({
     // Form submission handler
     onSubmit: async ({ value }) => {
       setIsSubmitting(true);
-      setErrorMessage("");
+      setLoginError("");
 
       try {
         log.silly("Form submitted with values:", value);
@@ -140,8 +139,8 @@ export function LoginForm({
         await handleLogin(value.email, value.password);
 
         // Only redirects on successful login, errors go into `error` block
-        if (routeSearch.redirect) {
-          router.navigate({ to: routeSearch.redirect as RedirectPath });
+        if (routeSearch.redirect && isRedirectHref(routeSearch.redirect)) {
+          router.navigate({ href: routeSearch.redirect });
         } else {
           router.navigate({ to: "/" });
         }
@@ -149,16 +148,9 @@ export function LoginForm({
         // Don't handle redirect errors
         if (error instanceof Error && error.name !== "RedirectError") {
           // Handle login errors
-          let message = error.message || "Login failed. Please try again.";
-
-          // Handle specific error messages
-          if (message === "Failed to fetch") {
-            message = "Authentication service is not reachable.";
-          }
+          setLoginError(errorMessage(error));
 
-          setErrorMessage(decodeURI(message));
-          
-          log.error("Login error:", message);
+          log.error("Login error:", error);
         } else {
           // Re-throw redirect
           throw error;
@@ -209,12 +201,19 @@ export function LoginForm({
               <div className="grid gap-3">
                 <div className="flex items-center">
                   <Label htmlFor="password">Password</Label>
-                  <a
-                    href="#"
-                    className="ml-auto text-sm underline-offset-2 hover:underline"
-                  >
-                    Forgot your password?
-                  </a>
+                  {/* Pass the email typed so far on to the forgot password form */}
+                  <form.Subscribe
+                    selector={(state) => state.values.email}
+                    children={(email) => (
+                      <Link
+                        to="/forgot-password"
+                        search={{ email: email || undefined }}
+                        className="ml-auto text-sm underline-offset-2 hover:underline"
+                      >
+                        Forgot your password?
+                      </Link>
+                    )}
+                  />
                 </div>
                 <form.Field
                   name="password"
@@ -232,6 +231,12 @@ export function LoginForm({
                 />
               </div>
               {isSubmitting ? <LoadingButton /> : <LoginButton />}
+              <div className="text-center text-sm">
+                Don&apos;t have an account?{" "}
+                <Link to="/register" className="underline underline-offset-4">
+                  Sign up
+                </Link>
+              </div>
             </div>
           </form>
           <div className="bg-muted relative hidden md:block">
@@ -247,7 +252,7 @@ export function LoginForm({
         By clicking continue, you agree to our <a href="#">Terms of Service</a>{" "}
         and <a href="#">Privacy Policy</a>.
       </div> */}
-      {errorMessage && <LoginAlert message={errorMessage} />}
+      {loginError && <LoginAlert message={loginError} />}
     </div>
   );
 }
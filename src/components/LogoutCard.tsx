@@ -1,4 +1,7 @@
 import Logger from "@/logger";
+import { AlertCircle } from "lucide-react";
+import type { LogoutReason } from "./AuthenticationProvider";
+import { Alert, AlertDescription, AlertTitle } from "./shadcn_ui/alert";
 import { Button } from "./shadcn_ui/button";
 import {
   Card,
@@ -12,7 +15,20 @@ import { useRouter } from "@tanstack/react-router";
 // Import the logger instance
 const log = Logger.getInstance();
 
-export function LogOutCard() {
+// Card description for each reason a session can end on its own
+const LOGOUT_REASON_DESCRIPTIONS: Record<LogoutReason, string> = {
+  expired: "Your session has expired. Please log back in to continue.",
+  idle: "You were signed out after a period of inactivity.",
+  revoked: "You were signed out on every device.",
+};
+
+type LogOutCardProps = {
+  reason?: LogoutReason;
+  // The backend could not be told, so its session may still be open
+  isBackendLogoutFailed?: boolean;
+};
+
+export function LogOutCard({ reason, isBackendLogoutFailed }: LogOutCardProps) {
 
   const router = useRouter();
 
@@ -31,10 +47,23 @@ export function LogOutCard() {
         <CardHeader>
           <CardTitle className="text-2xl">Logged Out</CardTitle>
           <CardDescription>
-            You have been logged. You can close this window or log back in.
+            {reason
+              ? LOGOUT_REASON_DESCRIPTIONS[reason]
+              : "You have been logged. You can close this window or log back in."}
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="grid gap-4">
+          {isBackendLogoutFailed && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>The server could not be told</AlertTitle>
+              <AlertDescription>
+                You are logged out on this device, but your session may still be
+                open on the server. Log in and out again once you are back
+                online to end it.
+              </AlertDescription>
+            </Alert>
+          )}
           <Button onClick={onLoginButtonClick} className="w-full">
             Login
           </Button>
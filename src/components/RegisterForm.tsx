@@ -0,0 +1,202 @@
+//-- ./src/components/RegisterForm.tsx
+
+/**
+ * # Register Form
+ *
+ * Self-service registration form for creating a new account with the backend
+ * server.
+ *
+ * The email, password and confirm password fields are validated with a zod
+ * schema before the register request is sent. The message returned by the
+ * authentication service is shown once the request completes.
+ */
+
+import { useForm } from "@tanstack/react-form";
+import { Link } from "@tanstack/react-router";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { z } from "zod";
+import { Button } from "@/components/shadcn_ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/shadcn_ui/card";
+import { Input } from "@/components/shadcn_ui/input";
+import { Label } from "@/components/shadcn_ui/label";
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+} from "@/components/shadcn_ui/alert";
+import { FieldErrors } from "@/components/FieldErrors";
+import { newPasswordSchema } from "@/domains/password";
+import { errorMessage } from "@/lib/errors";
+import { useRegisterMutation } from "@/queries/authentication";
+import Logger from "@/logger";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+/**
+ * # Register Schema
+ *
+ * Validate the registration form values, including that both password fields
+ * match.
+ */
+const registerSchema = z
+  .object({
+    email: z.string().email("Enter a valid email address"),
+    password: newPasswordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+export function RegisterForm() {
+  log.silly("RegisterForm rendered");
+
+  const registerMutation = useRegisterMutation();
+
+  const form = useForm({
+    defaultValues: {
+      email: "",
+      password: "",
+      confirmPassword: "",
+    },
+    validators: {
+      onChange: registerSchema,
+    },
+    onSubmit: async ({ value }) => {
+      // Errors are surfaced through the mutation state
+      await registerMutation
+        .mutateAsync({ email: value.email, password: value.password })
+        .catch(() => undefined);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">Create an account</CardTitle>
+        <CardDescription>
+          Register for an Authentication Service account
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex flex-col gap-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            form.handleSubmit();
+          }}
+        >
+          <form.Field
+            name="email"
+            children={(field) => (
+              <div className="grid gap-3">
+                <Label htmlFor={field.name}>Email</Label>
+                <Input
+                  id={field.name}
+                  type="email"
+                  placeholder="me@example.com"
+                  autoComplete="email"
+                  value={field.state.value}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                />
+                <FieldErrors errors={field.state.meta.errors} />
+              </div>
+            )}
+          />
+          <form.Field
+            name="password"
+            children={(field) => (
+              <div className="grid gap-3">
+                <Label htmlFor={field.name}>Password</Label>
+                <Input
+                  id={field.name}
+                  type="password"
+                  autoComplete="new-password"
+                  value={field.state.value}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                />
+                <FieldErrors errors={field.state.meta.errors} />
+              </div>
+            )}
+          />
+          <form.Field
+            name="confirmPassword"
+            children={(field) => (
+              <div className="grid gap-3">
+                <Label htmlFor={field.name}>Confirm password</Label>
+                <Input
+                  id={field.name}
+                  type="password"
+                  autoComplete="new-password"
+                  value={field.state.value}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                />
+                <FieldErrors errors={field.state.meta.errors} />
+              </div>
+            )}
+          />
+          <form.Subscribe
+            selector={(state) => [state.canSubmit, state.isSubmitting]}
+            children={([canSubmit, isSubmitting]) => (
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!canSubmit || isSubmitting}
+              >
+                {isSubmitting && <Loader2 className="animate-spin" />}
+                {isSubmitting ? "Registering ..." : "Register"}
+              </Button>
+            )}
+          />
+          {registerMutation.isSuccess && (
+            <Alert
+              variant={registerMutation.data.success ? "default" : "destructive"}
+            >
+              {registerMutation.data.success ? (
+                <CheckCircle2 className="h-4 w-4" />
+              ) : (
+                <AlertCircle className="h-4 w-4" />
+              )}
+              <AlertTitle>
+                {registerMutation.data.success
+                  ? "Registration received"
+                  : "Registration failed"}
+              </AlertTitle>
+              <AlertDescription>
+                {registerMutation.data.message}
+              </AlertDescription>
+            </Alert>
+          )}
+          {registerMutation.isError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>
+                {errorMessage(registerMutation.error)}
+              </AlertDescription>
+            </Alert>
+          )}
+        </form>
+      </CardContent>
+      <CardFooter className="justify-center text-sm">
+        Already have an account?&nbsp;
+        <Link to="/login" className="underline underline-offset-4">
+          Login
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,250 @@
+//-- ./src/components/sessions/ActiveSessionsCard.tsx
+
+/**
+ * # Active Sessions Card
+ *
+ * Lists the current user's sessions on the account page. Each active session
+ * can be revoked, and the user can sign out of every other device or of every
+ * device including this one.
+ */
+
+import { useAuthentication } from "@/components/AuthenticationProvider";
+import { findCurrentSession, type Session } from "@/domains/session";
+import { errorKind, errorMessage } from "@/lib/errors";
+import { readLoginIssuedAt } from "@/lib/loginIssuedAt";
+import Logger from "@/logger";
+import {
+  useRevokeOtherSessionsMutation,
+  useRevokeSessionMutation,
+  useRevokeUserSessionsMutation,
+  useUserSessionsQuery,
+} from "@/queries/sessions";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { useEffect } from "react";
+import { Alert, AlertDescription, AlertTitle } from "../shadcn_ui/alert";
+import { Button } from "../shadcn_ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "../shadcn_ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../shadcn_ui/table";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+const dateTimeFormat = new Intl.DateTimeFormat("en-AU", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+/**
+ * # Session Row
+ *
+ * A single session in the active sessions table with its revoke button, which
+ * shows why a revoke failed.
+ */
+function SessionRow({
+  session,
+  isCurrent,
+}: {
+  session: Session;
+  isCurrent: boolean;
+}) {
+  const revokeMutation = useRevokeSessionMutation();
+
+  return (
+    <TableRow data-state={isCurrent && "selected"}>
+      <TableCell>
+        {dateTimeFormat.format(session.loginOn)}
+        {isCurrent && (
+          <span className="text-muted-foreground ml-2 text-xs">
+            (this device)
+          </span>
+        )}
+      </TableCell>
+      <TableCell className="font-mono text-xs">
+        {session.loginIp ?? "-"}
+      </TableCell>
+      <TableCell>{dateTimeFormat.format(session.expiresOn)}</TableCell>
+      <TableCell className="text-center">
+        {session.isActive ? "✔️" : "❌"}
+      </TableCell>
+      <TableCell className="text-right">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isCurrent || !session.isActive || revokeMutation.isPending}
+          onClick={() => revokeMutation.mutate(session.id)}
+        >
+          Revoke
+        </Button>
+        {revokeMutation.isError && (
+          <p role="alert" className="text-destructive mt-1 text-xs">
+            {errorMessage(revokeMutation.error)}
+          </p>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function ActiveSessionsCard() {
+  const { currentUser, handleLogout } = useAuthentication();
+
+  const { data, isLoading, isError, error } = useUserSessionsQuery(
+    currentUser?.id
+  );
+  const revokeOthersMutation = useRevokeOtherSessionsMutation();
+  const revokeUserMutation = useRevokeUserSessionsMutation();
+
+  const sessions = data?.sessions ?? [];
+  const currentSession = findCurrentSession(sessions, readLoginIssuedAt());
+  const isCurrentSessionUnknown = !!data && !currentSession;
+
+  useEffect(() => {
+    if (isCurrentSessionUnknown) {
+      log.warn(
+        "The current session could not be matched to the login time, signing out of other sessions is disabled"
+      );
+    }
+  }, [isCurrentSessionUnknown]);
+
+  // Without the current session every active session could be this one
+  const otherSessionIds = currentSession
+    ? sessions
+        .filter(
+          (session) => session.isActive && session.id !== currentSession.id
+        )
+        .map((session) => session.id)
+    : [];
+
+  const mutationError = revokeOthersMutation.error ?? revokeUserMutation.error;
+
+  const onSignOutOthers = () => {
+    log.debug("Signing out other sessions: ", otherSessionIds);
+    revokeOthersMutation.mutate(otherSessionIds);
+  };
+
+  const onSignOutEverywhere = () => {
+    if (!currentUser) return;
+
+    // Revoking every session includes this one, so finish with a local logout.
+    // The protected layout then shows the logout page.
+    revokeUserMutation.mutate(currentUser.id, {
+      onSuccess: () => handleLogout("revoked"),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>My active sessions</CardTitle>
+        <CardDescription>
+          Devices that have signed in to your account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {isLoading && (
+          <span
+            role="status"
+            aria-live="polite"
+            className="flex items-center gap-2"
+          >
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading sessions...
+          </span>
+        )}
+        {isError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            {errorKind(error) === "permissionDenied" ? (
+              <>
+                <AlertTitle>Sessions unavailable</AlertTitle>
+                <AlertDescription>
+                  Your account is not allowed to list sessions. Ask an
+                  administrator to check which devices are signed in.
+                </AlertDescription>
+              </>
+            ) : (
+              <>
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{errorMessage(error)}</AlertDescription>
+              </>
+            )}
+          </Alert>
+        )}
+        {data && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Login</TableHead>
+                <TableHead>Login IP</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-center">Active</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.length ? (
+                sessions.map((session) => (
+                  <SessionRow
+                    key={session.id}
+                    session={session}
+                    isCurrent={session.id === currentSession?.id}
+                  />
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    No sessions.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+        {isCurrentSessionUnknown && (
+          <p className="text-muted-foreground text-sm">
+            This device's session could not be identified, so signing out of the
+            other devices is not available. Sign out and in again on this device
+            to use it.
+          </p>
+        )}
+        {mutationError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{errorMessage(mutationError)}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          disabled={!otherSessionIds.length || revokeOthersMutation.isPending}
+          onClick={onSignOutOthers}
+        >
+          Sign out everywhere else
+        </Button>
+        <Button
+          variant="destructive"
+          disabled={!currentUser || revokeUserMutation.isPending}
+          onClick={onSignOutEverywhere}
+        >
+          Sign out everywhere
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
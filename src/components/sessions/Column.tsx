@@ -0,0 +1,79 @@
+//-- ./src/components/sessions/Column.tsx
+
+/**
+ * @file Column.tsx
+ * @description This file contains the column definitions for the sessions
+ * DataTable. The per-row revoke and delete actions live in SessionActions.
+ * @reference https://ui.shadcn.com/docs/components/data-table
+ */
+
+import type { Session } from "@/domains/session";
+import type { ColumnDef } from "@tanstack/react-table";
+import { SessionActions } from "./SessionActions";
+
+/**
+ * # Date Time Formatter
+ *
+ * Shared formatter for the session date columns.
+ */
+const dateTimeFormat = new Intl.DateTimeFormat("en-AU", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+/**
+ * # Session Columns
+ *
+ * This is the columns definition for the sessions table.
+ */
+export const columns: ColumnDef<Session>[] = [
+  {
+    accessorKey: "userId",
+    header: "User ID",
+    cell: ({ row }) => (
+      <div className="font-mono text-xs">{row.getValue("userId")}</div>
+    ),
+  },
+  {
+    accessorKey: "loginOn",
+    header: "Login",
+    cell: ({ row }) => {
+      const date = row.getValue("loginOn") as Date;
+
+      return <div className="font-medium">{dateTimeFormat.format(date)}</div>;
+    },
+  },
+  {
+    accessorKey: "loginIp",
+    header: "Login IP",
+    cell: ({ row }) => {
+      const ip = row.getValue("loginIp") as string | undefined;
+
+      return <div className="font-mono text-xs">{ip ?? "-"}</div>;
+    },
+  },
+  {
+    accessorKey: "expiresOn",
+    header: "Expires",
+    cell: ({ row }) => {
+      const date = row.getValue("expiresOn") as Date;
+
+      return <div className="font-medium">{dateTimeFormat.format(date)}</div>;
+    },
+  },
+  {
+    accessorKey: "isActive",
+    header: "Active",
+    cell: ({ row }) => {
+      const isActive = row.getValue("isActive") as boolean;
+
+      const formatted = isActive ? "✔️" : "❌";
+
+      return <div className="text-center font-medium">{formatted}</div>;
+    },
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <SessionActions session={row.original} />,
+  },
+];
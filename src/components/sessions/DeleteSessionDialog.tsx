@@ -0,0 +1,127 @@
+//-- ./src/components/sessions/DeleteSessionDialog.tsx
+
+/**
+ * # Delete Session Dialog
+ *
+ * Deleting a session removes it from the backend and cannot be undone, so the
+ * admin confirms it first.
+ */
+
+import { AlertCircle, Loader2 } from "lucide-react";
+import type { Session } from "@/domains/session";
+import { errorMessage } from "@/lib/errors";
+import { useDeleteSessionMutation } from "@/queries/sessions";
+import { Alert, AlertDescription, AlertTitle } from "../shadcn_ui/alert";
+import { Button } from "../shadcn_ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../shadcn_ui/dialog";
+
+interface DeleteSessionDialogProps {
+  session: Session;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * # Delete Session Form
+ *
+ * The dialog content unmounts when closed, so the mutation state starts fresh
+ * each time the dialog opens.
+ */
+function DeleteSessionForm({
+  session,
+  onSuccess,
+}: {
+  session: Session;
+  onSuccess: () => void;
+}) {
+  const deleteSessionMutation = useDeleteSessionMutation();
+
+  const handleDelete = async () => {
+    const { rowsAffected } = await deleteSessionMutation.mutateAsync(
+      session.id
+    );
+
+    if (rowsAffected > 0n) {
+      onSuccess();
+    }
+  };
+
+  return (
+    <form
+      className="grid gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleDelete().catch(() => undefined);
+      }}
+    >
+      <DialogHeader>
+        <DialogTitle>Delete session</DialogTitle>
+        <DialogDescription>
+          This permanently deletes the session{" "}
+          <span className="font-mono">{session.id}</span> and signs its device
+          out. It cannot be undone.
+        </DialogDescription>
+      </DialogHeader>
+      {deleteSessionMutation.isError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            {errorMessage(deleteSessionMutation.error)}
+          </AlertDescription>
+        </Alert>
+      )}
+      {deleteSessionMutation.data?.rowsAffected === 0n && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Not deleted</AlertTitle>
+          <AlertDescription>
+            The session was not found, it may already have been deleted.
+          </AlertDescription>
+        </Alert>
+      )}
+      <DialogFooter>
+        <DialogClose asChild>
+          <Button type="button" variant="outline">
+            Cancel
+          </Button>
+        </DialogClose>
+        <Button
+          type="submit"
+          variant="destructive"
+          disabled={deleteSessionMutation.isPending}
+        >
+          {deleteSessionMutation.isPending && (
+            <Loader2 className="animate-spin" />
+          )}
+          Delete session
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function DeleteSessionDialog({
+  session,
+  open,
+  onOpenChange,
+}: DeleteSessionDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DeleteSessionForm
+          session={session}
+          onSuccess={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
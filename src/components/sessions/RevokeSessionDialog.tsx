@@ -0,0 +1,126 @@
+//-- ./src/components/sessions/RevokeSessionDialog.tsx
+
+/**
+ * # Revoke Session Dialog
+ *
+ * Revoking a session signs its device out at the next refresh. The session is
+ * kept, marked inactive.
+ */
+
+import { AlertCircle, Loader2 } from "lucide-react";
+import type { Session } from "@/domains/session";
+import { errorMessage } from "@/lib/errors";
+import { useRevokeSessionMutation } from "@/queries/sessions";
+import { Alert, AlertDescription, AlertTitle } from "../shadcn_ui/alert";
+import { Button } from "../shadcn_ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../shadcn_ui/dialog";
+
+interface RevokeSessionDialogProps {
+  session: Session;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * # Revoke Session Form
+ *
+ * The dialog content unmounts when closed, so the mutation state starts fresh
+ * each time the dialog opens.
+ */
+function RevokeSessionForm({
+  session,
+  onSuccess,
+}: {
+  session: Session;
+  onSuccess: () => void;
+}) {
+  const revokeSessionMutation = useRevokeSessionMutation();
+
+  const handleRevoke = async () => {
+    const { rowsAffected } = await revokeSessionMutation.mutateAsync(
+      session.id
+    );
+
+    if (rowsAffected > 0n) {
+      onSuccess();
+    }
+  };
+
+  return (
+    <form
+      className="grid gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleRevoke().catch(() => undefined);
+      }}
+    >
+      <DialogHeader>
+        <DialogTitle>Revoke session</DialogTitle>
+        <DialogDescription>
+          This signs the device of the session{" "}
+          <span className="font-mono">{session.id}</span> out.
+        </DialogDescription>
+      </DialogHeader>
+      {revokeSessionMutation.isError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            {errorMessage(revokeSessionMutation.error)}
+          </AlertDescription>
+        </Alert>
+      )}
+      {revokeSessionMutation.data?.rowsAffected === 0n && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Not revoked</AlertTitle>
+          <AlertDescription>
+            The session was not found, it may have been deleted.
+          </AlertDescription>
+        </Alert>
+      )}
+      <DialogFooter>
+        <DialogClose asChild>
+          <Button type="button" variant="outline">
+            Cancel
+          </Button>
+        </DialogClose>
+        <Button
+          type="submit"
+          variant="destructive"
+          disabled={revokeSessionMutation.isPending}
+        >
+          {revokeSessionMutation.isPending && (
+            <Loader2 className="animate-spin" />
+          )}
+          Revoke session
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function RevokeSessionDialog({
+  session,
+  open,
+  onOpenChange,
+}: RevokeSessionDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <RevokeSessionForm
+          session={session}
+          onSuccess={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
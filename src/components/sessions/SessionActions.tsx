@@ -0,0 +1,93 @@
+//-- ./src/components/sessions/SessionActions.tsx
+
+import { useAuthentication } from "@/components/AuthenticationProvider";
+import { findCurrentSession, type Session } from "@/domains/session";
+import { readLoginIssuedAt } from "@/lib/loginIssuedAt";
+import { MoreHorizontal } from "lucide-react";
+import { useState } from "react";
+import { Button } from "../shadcn_ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../shadcn_ui/dropdown-menu";
+import { DeleteSessionDialog } from "./DeleteSessionDialog";
+import { RevokeSessionDialog } from "./RevokeSessionDialog";
+
+/**
+ * # Session Actions
+ *
+ * The actions dropdown for a single session row. The dialogs are rendered
+ * outside the dropdown so they stay open once the menu closes, and show the
+ * errors of their mutations. The mutation hooks invalidate the sessions queries
+ * on success, so the table refreshes itself.
+ *
+ * The admin's own session can not be revoked or deleted here, that would sign
+ * the admin out without going through the logout.
+ */
+export function SessionActions({ session }: { session: Session }) {
+  const [isRevokeOpen, setIsRevokeOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const { currentUser } = useAuthentication();
+
+  const isCurrentSession =
+    session.userId === currentUser?.id &&
+    findCurrentSession([session], readLoginIssuedAt()) !== undefined;
+
+  return (
+    <>
+      {/* Non-modal so the menu does not fight the dialogs over focus */}
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-8 w-8 p-0">
+            <span className="sr-only">Open menu</span>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>
+            {isCurrentSession ? "Your current session" : "Actions"}
+          </DropdownMenuLabel>
+          <DropdownMenuItem
+            onClick={() => navigator.clipboard.writeText(session.id)}
+          >
+            Copy ID
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => navigator.clipboard.writeText(session.userId)}
+          >
+            Copy User ID
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={!session.isActive || isCurrentSession}
+            onSelect={() => setIsRevokeOpen(true)}
+          >
+            Revoke
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            variant="destructive"
+            disabled={isCurrentSession}
+            onSelect={() => setIsDeleteOpen(true)}
+          >
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <RevokeSessionDialog
+        session={session}
+        open={isRevokeOpen}
+        onOpenChange={setIsRevokeOpen}
+      />
+      <DeleteSessionDialog
+        session={session}
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+      />
+    </>
+  );
+}
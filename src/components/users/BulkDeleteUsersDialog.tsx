@@ -0,0 +1,234 @@
+//-- ./src/components/users/BulkDeleteUsersDialog.tsx
+
+/**
+ * # Bulk Delete Users Dialog
+ *
+ * Deletes the selected rows of the users table. Users are deleted one at a
+ * time, the dialog shows progress while it runs and a per-user summary once it
+ * finishes, built from the `rowsAffected` of each `DeleteUserResponse`. The
+ * admin's own account is never deleted, even when it is selected.
+ */
+
+import { CheckCircle2, Loader2, Trash2, XCircle } from "lucide-react";
+import { useState } from "react";
+import { useAuthentication } from "@/components/AuthenticationProvider";
+import type { User } from "@/domains/user";
+import { errorMessage } from "@/lib/errors";
+import {
+  isUserDeleted,
+  useDeleteUsersMutation,
+  type DeleteUserResult,
+} from "@/queries/users";
+import { Button } from "../shadcn_ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "../shadcn_ui/dialog";
+import { Input } from "../shadcn_ui/input";
+import { Label } from "../shadcn_ui/label";
+
+// The phrase the admin types to confirm a bulk delete
+const CONFIRMATION_PHRASE = "delete";
+
+interface BulkDeleteUsersDialogProps {
+  users: User[];
+  onComplete: () => void;
+}
+
+function resultMessage(result: DeleteUserResult) {
+  if (result.error) return errorMessage(result.error);
+  if (result.rowsAffected === 0n) return "Not found";
+  return "Deleted";
+}
+
+/**
+ * # Bulk Delete Users Form
+ *
+ * Mounted inside the dialog content so each visit starts with a fresh
+ * confirmation and no results from the previous run.
+ */
+function BulkDeleteUsersForm({
+  users,
+  onStart,
+  onSettled,
+}: {
+  users: User[];
+  onStart: () => void;
+  onSettled: () => void;
+}) {
+  const [confirmation, setConfirmation] = useState("");
+  const [results, setResults] = useState<DeleteUserResult[]>([]);
+
+  const { currentUser } = useAuthentication();
+
+  // Keep the users being deleted, the selection is cleared once the run ends.
+  // The table does not let admins select their own row, this also covers a
+  // selection made before the current user was known.
+  const [pendingUsers] = useState(() =>
+    users.filter((user) => user.id !== currentUser?.id)
+  );
+  const isOwnAccountSkipped = pendingUsers.length < users.length;
+
+  const deleteUsersMutation = useDeleteUsersMutation();
+
+  const isConfirmed =
+    confirmation.trim().toLowerCase() === CONFIRMATION_PHRASE;
+  const hasStarted = deleteUsersMutation.isPending || results.length > 0;
+  const isFinished =
+    results.length === pendingUsers.length || deleteUsersMutation.isError;
+  const deletedCount = results.filter((result) => isUserDeleted(result)).length;
+
+  const handleDelete = () => {
+    if (!isConfirmed || hasStarted) return;
+
+    onStart();
+    deleteUsersMutation.mutate(
+      {
+        users: pendingUsers,
+        onProgress: (result) =>
+          setResults((previous) => [...previous, result]),
+      },
+      { onSettled }
+    );
+  };
+
+  return (
+    <form
+      className="grid gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleDelete();
+      }}
+    >
+      <DialogHeader>
+        <DialogTitle>Delete {pendingUsers.length} users</DialogTitle>
+        <DialogDescription>
+          This permanently deletes the selected users and cannot be undone.
+        </DialogDescription>
+      </DialogHeader>
+      {isOwnAccountSkipped && (
+        <p className="text-muted-foreground text-sm">
+          Your own account is not deleted, you are signed in with it.
+        </p>
+      )}
+      {!hasStarted && (
+        <div className="grid gap-2">
+          <Label htmlFor="bulk-delete-confirmation">
+            Type <strong>{CONFIRMATION_PHRASE}</strong> to confirm
+          </Label>
+          <Input
+            id="bulk-delete-confirmation"
+            autoComplete="off"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+        </div>
+      )}
+      {hasStarted && (
+        <p role="status" aria-live="polite" className="text-sm">
+          {isFinished
+            ? `Deleted ${deletedCount} of ${pendingUsers.length} users.`
+            : `Deleting ${results.length + 1} of ${pendingUsers.length}...`}
+        </p>
+      )}
+      {deleteUsersMutation.isError && (
+        <p role="alert" className="text-destructive text-sm">
+          {errorMessage(deleteUsersMutation.error)}
+        </p>
+      )}
+      <ul className="grid max-h-64 gap-1 overflow-y-auto text-sm">
+        {pendingUsers.map((user, index) => {
+          const result = results[index];
+
+          return (
+            <li key={user.id} className="flex items-center gap-2">
+              {!result ? (
+                deleteUsersMutation.isPending && index === results.length ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <span className="h-4 w-4" />
+                )
+              ) : isUserDeleted(result) ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+              ) : (
+                <XCircle className="text-destructive h-4 w-4" />
+              )}
+              <span className="truncate">{user.email}</span>
+              {result && (
+                <span className="text-muted-foreground ml-auto shrink-0">
+                  {resultMessage(result)}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <DialogFooter>
+        <DialogClose asChild>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={deleteUsersMutation.isPending}
+          >
+            {isFinished ? "Close" : "Cancel"}
+          </Button>
+        </DialogClose>
+        {!isFinished && (
+          <Button
+            type="submit"
+            variant="destructive"
+            disabled={!isConfirmed || hasStarted || pendingUsers.length === 0}
+          >
+            {deleteUsersMutation.isPending && (
+              <Loader2 className="animate-spin" />
+            )}
+            Delete users
+          </Button>
+        )}
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function BulkDeleteUsersDialog({
+  users,
+  onComplete,
+}: BulkDeleteUsersDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<"idle" | "running" | "done">("idle");
+
+  const onOpenChange = (isOpen: boolean) => {
+    // Keep the dialog open until every delete request has settled
+    if (status === "running") return;
+
+    // Clear the table selection once the dialog closes after a run
+    if (!isOpen && status === "done") onComplete();
+
+    setStatus("idle");
+    setOpen(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" disabled={users.length === 0}>
+          <Trash2 />
+          Delete selected ({users.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <BulkDeleteUsersForm
+          users={users}
+          onStart={() => setStatus("running")}
+          onSettled={() => setStatus("done")}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+//-- ./src/components/users/CreateUserSheet.tsx
+
+/**
+ * # Create User Sheet
+ *
+ * A "New user" button that opens a side sheet with a form for creating a user.
+ * The create user mutation invalidates the users queries on success, which
+ * refreshes the users table.
+ */
+
+import { useForm } from "@tanstack/react-form";
+import { AlertCircle, Loader2, Plus } from "lucide-react";
+import { useState } from "react";
+import { z } from "zod";
+import { FieldErrors } from "@/components/FieldErrors";
+import { Role } from "@/domains/role";
+import { newPasswordSchema } from "@/domains/password";
+import { useCreateUserMutation } from "@/queries/users";
+import { errorMessage } from "@/lib/errors";
+import { Alert, AlertDescription, AlertTitle } from "../shadcn_ui/alert";
+import { Button } from "../shadcn_ui/button";
+import { Input } from "../shadcn_ui/input";
+import { Label } from "../shadcn_ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "../shadcn_ui/sheet";
+import { RoleSelect } from "./RoleSelect";
+
+const createUserSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+  name: z.string().trim().min(1, "Enter a name"),
+  password: newPasswordSchema,
+  role: z.nativeEnum(Role),
+  isActive: z.boolean(),
+  isVerified: z.boolean(),
+});
+
+export function CreateUserSheet() {
+  const [open, setOpen] = useState(false);
+
+  const createUserMutation = useCreateUserMutation();
+
+  const form = useForm({
+    defaultValues: {
+      email: "",
+      name: "",
+      password: "",
+      role: Role.User,
+      isActive: true,
+      isVerified: false,
+    },
+    validators: {
+      onChange: createUserSchema,
+    },
+    onSubmit: async ({ value, formApi }) => {
+      await createUserMutation.mutateAsync(value);
+
+      formApi.reset();
+      setOpen(false);
+    },
+  });
+
+  // Start each visit to the sheet with a clean form
+  const onOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      form.reset();
+      createUserMutation.reset();
+    }
+    setOpen(isOpen);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetTrigger asChild>
+        <Button>
+          <Plus />
+          New user
+        </Button>
+      </SheetTrigger>
+      <SheetContent>
+        <form
+          className="flex h-full flex-col"
+          onSubmit={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            form.handleSubmit().catch(() => undefined);
+          }}
+        >
+          <SheetHeader>
+            <SheetTitle>New user</SheetTitle>
+            <SheetDescription>
+              Create a new user account in the authentication service.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex flex-col gap-4 overflow-y-auto px-4">
+            <form.Field
+              name="email"
+              children={(field) => (
+                <div className="grid gap-2">
+                  <Label htmlFor={field.name}>Email</Label>
+                  <Input
+                    id={field.name}
+                    type="email"
+                    autoComplete="off"
+                    value={field.state.value}
+                    onBlur={field.handleBlur}
+                    onChange={(e) => field.handleChange(e.target.value)}
+                  />
+                  <FieldErrors errors={field.state.meta.errors} />
+                </div>
+              )}
+            />
+            <form.Field
+              name="name"
+              children={(field) => (
+                <div className="grid gap-2">
+                  <Label htmlFor={field.name}>Name</Label>
+                  <Input
+                    id={field.name}
+                    autoComplete="off"
+                    value={field.state.value}
+                    onBlur={field.handleBlur}
+                    onChange={(e) => field.handleChange(e.target.value)}
+                  />
+                  <FieldErrors errors={field.state.meta.errors} />
+                </div>
+              )}
+            />
+            <form.Field
+              name="password"
+              children={(field) => (
+                <div className="grid gap-2">
+                  <Label htmlFor={field.name}>Password</Label>
+                  <Input
+                    id={field.name}
+                    type="password"
+                    autoComplete="new-password"
+                    value={field.state.value}
+                    onBlur={field.handleBlur}
+                    onChange={(e) => field.handleChange(e.target.value)}
+                  />
+                  <FieldErrors errors={field.state.meta.errors} />
+                </div>
+              )}
+            />
+            <form.Field
+              name="role"
+              children={(field) => (
+                <div className="grid gap-2">
+                  <Label htmlFor={field.name}>Role</Label>
+                  <RoleSelect
+                    id={field.name}
+                    value={field.state.value}
+                    onBlur={field.handleBlur}
+                    onChange={(role) => field.handleChange(role as Role)}
+                  />
+                  <FieldErrors errors={field.state.meta.errors} />
+                </div>
+              )}
+            />
+            <form.Field
+              name="isActive"
+              children={(field) => (
+                <div className="flex items-center gap-2">
+                  <input
+                    id={field.name}
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={field.state.value}
+                    onChange={(e) => field.handleChange(e.target.checked)}
+                  />
+                  <Label htmlFor={field.name}>Active</Label>
+                </div>
+              )}
+            />
+            <form.Field
+              name="isVerified"
+              children={(field) => (
+                <div className="flex items-center gap-2">
+                  <input
+                    id={field.name}
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={field.state.value}
+                    onChange={(e) => field.handleChange(e.target.checked)}
+                  />
+                  <Label htmlFor={field.name}>Verified</Label>
+                </div>
+              )}
+            />
+            {createUserMutation.isError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>
+                  {errorMessage(createUserMutation.error)}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+          <SheetFooter>
+            <form.Subscribe
+              selector={(state) => [state.canSubmit, state.isSubmitting]}
+              children={([canSubmit, isSubmitting]) => (
+                <Button type="submit" disabled={!canSubmit || isSubmitting}>
+                  {isSubmitting && <Loader2 className="animate-spin" />}
+                  Create user
+                </Button>
+              )}
+            />
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
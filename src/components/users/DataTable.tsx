@@ -6,8 +6,10 @@
  * Features:
  * - Sorting
  * - Filtering
- * - Pagination
+ * - Server side pagination with a page size selector
  * - Search
+ * - Create user
+ * - Row selection with bulk delete
  *
  * @reference https://ui.shadcn.com/docs/components/data-table
  */
@@ -20,6 +22,7 @@ import {
   useReactTable,
   type ColumnDef,
   type ColumnFiltersState,
+  type RowSelectionState,
   type SortingState,
   type VisibilityState,
 } from "@tanstack/react-table";
@@ -35,19 +38,56 @@ import { Button } from "../shadcn_ui/button";
 import { useState } from "react";
 import { Input } from "../shadcn_ui/input";
 import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuTrigger } from "../shadcn_ui/dropdown-menu";
+import type { User } from "@/domains/user";
+import { useAuthentication } from "@/components/AuthenticationProvider";
+import { BulkDeleteUsersDialog } from "./BulkDeleteUsersDialog";
+import { CreateUserSheet } from "./CreateUserSheet";
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   data: TData[];
+
+  /**
+   * The current page number, starting at 1
+   */
+  page: number;
+
+  /**
+   * The number of rows requested per page
+   */
+  perPage: number;
+
+  /**
+   * The page sizes offered by the page size selector
+   */
+  pageSizes: readonly number[];
+
+  /**
+   * Whether the backend may have another page of rows
+   */
+  hasNextPage: boolean;
+
+  /**
+   * Called with the new page and page size when the user pages through the table
+   */
+  onPaginationChange: (pagination: { page: number; perPage: number }) => void;
 }
 
-export function UsersDataTable<TData, TValue>({
+export function UsersDataTable<TData extends User, TValue>({
   columns,
   data,
+  page,
+  perPage,
+  pageSizes,
+  hasNextPage,
+  onPaginationChange,
 }: DataTableProps<TData, TValue>) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
   const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+
+  const { currentUser } = useAuthentication();
 
   const table = useReactTable({
     data,
@@ -57,17 +97,35 @@ export function UsersDataTable<TData, TValue>({
     getSortedRowModel: getSortedRowModel(),
     onColumnFiltersChange: setColumnFilters,
     getFilteredRowModel: getFilteredRowModel(),
+    // Pages are fetched from the backend, so the table only sorts and filters the rows it has
+    manualPagination: true,
     onColumnVisibilityChange: setColumnVisibility,
+    // Key the selection by user ID so it follows the user when rows re-order
+    getRowId: (row) => row.id,
+    // Admins can not delete their own account, so its row can not be selected
+    enableRowSelection: (row) => row.original.id !== currentUser?.id,
+    onRowSelectionChange: setRowSelection,
     state: {
       sorting,
       columnFilters,
       columnVisibility,
+      rowSelection,
     },
   });
 
+  // Selections do not carry across pages, only the visible rows can be deleted
+  const changePagination = (pagination: { page: number; perPage: number }) => {
+    table.resetRowSelection();
+    onPaginationChange(pagination);
+  };
+
+  const selectedUsers = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original);
+
   return (
     <div>
-      <div className="flex items-center py-4">
+      <div className="flex items-center gap-2 py-4">
         <Input
           placeholder="Filter emails..."
           value={(table.getColumn("email")?.getFilterValue() as string) ?? ""}
@@ -102,6 +160,12 @@ export function UsersDataTable<TData, TValue>({
               })}
           </DropdownMenuContent>
         </DropdownMenu>
+        {/* Always mounted, deleted rows leave the selection before the summary is closed */}
+        <BulkDeleteUsersDialog
+          users={selectedUsers}
+          onComplete={() => table.resetRowSelection()}
+        />
+        <CreateUserSheet />
       </div>
       <div className="rounded-md border">
         <Table>
@@ -154,19 +218,41 @@ export function UsersDataTable<TData, TValue>({
         </Table>
       </div>
       <div className="flex items-center justify-end space-x-2 py-4">
+        <label
+          htmlFor="users-per-page"
+          className="text-muted-foreground text-sm"
+        >
+          Rows per page
+        </label>
+        <select
+          id="users-per-page"
+          value={perPage}
+          // Start from the first page so the offset stays within the results
+          onChange={(e) =>
+            changePagination({ page: 1, perPage: Number(e.target.value) })
+          }
+          className="border-input dark:bg-input/30 h-8 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none"
+        >
+          {pageSizes.map((size) => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+        <span className="text-muted-foreground text-sm">Page {page}</span>
         <Button
           variant="outline"
           size="sm"
-          onClick={() => table.previousPage()}
-          disabled={!table.getCanPreviousPage()}
+          onClick={() => changePagination({ page: page - 1, perPage })}
+          disabled={page <= 1}
         >
           Previous
         </Button>
         <Button
           variant="outline"
           size="sm"
-          onClick={() => table.nextPage()}
-          disabled={!table.getCanNextPage()}
+          onClick={() => changePagination({ page: page + 1, perPage })}
+          disabled={!hasNextPage}
         >
           Next
         </Button>
@@ -0,0 +1,157 @@
+//-- ./src/components/users/DeleteUserDialog.tsx
+
+/**
+ * # Delete User Dialog
+ *
+ * Deleting a user cannot be undone, so the admin has to type the user's email
+ * before the delete button is enabled. Admins can not delete their own account.
+ */
+
+import { AlertCircle, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { useAuthentication } from "@/components/AuthenticationProvider";
+import type { User } from "@/domains/user";
+import { errorMessage } from "@/lib/errors";
+import { useDeleteUserMutation } from "@/queries/users";
+import { Alert, AlertDescription, AlertTitle } from "../shadcn_ui/alert";
+import { Button } from "../shadcn_ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../shadcn_ui/dialog";
+import { Input } from "../shadcn_ui/input";
+import { Label } from "../shadcn_ui/label";
+
+interface DeleteUserDialogProps {
+  user: User;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * # Delete User Form
+ *
+ * The dialog content unmounts when closed, so the confirmation and mutation
+ * state start fresh each time the dialog opens.
+ */
+function DeleteUserForm({
+  user,
+  onSuccess,
+}: {
+  user: User;
+  onSuccess: () => void;
+}) {
+  const [confirmation, setConfirmation] = useState("");
+
+  const { currentUser } = useAuthentication();
+
+  const deleteUserMutation = useDeleteUserMutation();
+
+  // Deleting the signed in account would end the session, and could remove
+  // the last admin
+  const isOwnAccount = user.id === currentUser?.id;
+  const isConfirmed = !isOwnAccount && confirmation.trim() === user.email;
+
+  const handleDelete = async () => {
+    if (!isConfirmed) return;
+
+    const { rowsAffected } = await deleteUserMutation.mutateAsync(user.id);
+
+    if (rowsAffected > 0n) {
+      onSuccess();
+    }
+  };
+
+  return (
+    <form
+      className="grid gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleDelete().catch(() => undefined);
+      }}
+    >
+      <DialogHeader>
+        <DialogTitle>Delete user</DialogTitle>
+        <DialogDescription>
+          This permanently deletes <strong>{user.email}</strong> and cannot be
+          undone.
+        </DialogDescription>
+      </DialogHeader>
+      {isOwnAccount ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>This is your account</AlertTitle>
+          <AlertDescription>
+            You can not delete the account you are signed in with. Ask another
+            admin to delete it.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="grid gap-2">
+          <Label htmlFor="delete-user-confirmation">
+            Type the user's email to confirm
+          </Label>
+          <Input
+            id="delete-user-confirmation"
+            autoComplete="off"
+            placeholder={user.email}
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+        </div>
+      )}
+      {deleteUserMutation.isError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            {errorMessage(deleteUserMutation.error)}
+          </AlertDescription>
+        </Alert>
+      )}
+      {deleteUserMutation.data?.rowsAffected === 0n && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Not deleted</AlertTitle>
+          <AlertDescription>
+            The user was not found, it may already have been deleted.
+          </AlertDescription>
+        </Alert>
+      )}
+      <DialogFooter>
+        <DialogClose asChild>
+          <Button type="button" variant="outline">
+            Cancel
+          </Button>
+        </DialogClose>
+        <Button
+          type="submit"
+          variant="destructive"
+          disabled={!isConfirmed || deleteUserMutation.isPending}
+        >
+          {deleteUserMutation.isPending && <Loader2 className="animate-spin" />}
+          Delete user
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function DeleteUserDialog({
+  user,
+  open,
+  onOpenChange,
+}: DeleteUserDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DeleteUserForm user={user} onSuccess={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+//-- ./src/components/users/EditUserSheet.tsx
+
+/**
+ * # Edit User Sheet
+ *
+ * A side sheet with a form for updating a user, prefilled from the table row.
+ * Passwords are not part of the update, they are changed through the
+ * authentication service.
+ */
+
+import { useForm } from "@tanstack/react-form";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { z } from "zod";
+import { FieldErrors } from "@/components/FieldErrors";
+import { Role } from "@/domains/role";
+import type { User } from "@/domains/user";
+import { errorMessage } from "@/lib/errors";
+import { useUpdateUserMutation } from "@/queries/users";
+import { Alert, AlertDescription, AlertTitle } from "../shadcn_ui/alert";
+import { Button } from "../shadcn_ui/button";
+import { Input } from "../shadcn_ui/input";
+import { Label } from "../shadcn_ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../shadcn_ui/sheet";
+import { RoleSelect } from "./RoleSelect";
+
+const editUserSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+  name: z.string().trim().min(1, "Enter a name"),
+  role: z.nativeEnum(Role),
+  isActive: z.boolean(),
+  isVerified: z.boolean(),
+});
+
+interface EditUserSheetProps {
+  user: User;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * # Edit User Form
+ *
+ * The sheet content unmounts when closed, so the form is mounted with fresh
+ * default values each time the sheet opens.
+ */
+function EditUserForm({
+  user,
+  onSuccess,
+}: {
+  user: User;
+  onSuccess: () => void;
+}) {
+  const updateUserMutation = useUpdateUserMutation();
+
+  const form = useForm({
+    defaultValues: {
+      email: user.email,
+      name: user.name,
+      role: user.role as Role,
+      isActive: user.isActive,
+      isVerified: user.isVerified,
+    },
+    validators: {
+      onChange: editUserSchema,
+    },
+    onSubmit: async ({ value }) => {
+      await updateUserMutation.mutateAsync({ id: user.id, ...value });
+      onSuccess();
+    },
+  });
+
+  return (
+    <form
+      className="flex h-full flex-col"
+      onSubmit={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        form.handleSubmit().catch(() => undefined);
+      }}
+    >
+      <SheetHeader>
+        <SheetTitle>Update user</SheetTitle>
+        <SheetDescription>
+          Update the details of {user.email}.
+        </SheetDescription>
+      </SheetHeader>
+      <div className="flex flex-col gap-4 overflow-y-auto px-4">
+        <form.Field
+          name="email"
+          children={(field) => (
+            <div className="grid gap-2">
+              <Label htmlFor={field.name}>Email</Label>
+              <Input
+                id={field.name}
+                type="email"
+                autoComplete="off"
+                value={field.state.value}
+                onBlur={field.handleBlur}
+                onChange={(e) => field.handleChange(e.target.value)}
+              />
+              <FieldErrors errors={field.state.meta.errors} />
+            </div>
+          )}
+        />
+        <form.Field
+          name="name"
+          children={(field) => (
+            <div className="grid gap-2">
+              <Label htmlFor={field.name}>Name</Label>
+              <Input
+                id={field.name}
+                autoComplete="off"
+                value={field.state.value}
+                onBlur={field.handleBlur}
+                onChange={(e) => field.handleChange(e.target.value)}
+              />
+              <FieldErrors errors={field.state.meta.errors} />
+            </div>
+          )}
+        />
+        <form.Field
+          name="role"
+          children={(field) => (
+            <div className="grid gap-2">
+              <Label htmlFor={field.name}>Role</Label>
+              <RoleSelect
+                id={field.name}
+                value={field.state.value}
+                onBlur={field.handleBlur}
+                onChange={(role) => field.handleChange(role as Role)}
+              />
+              <FieldErrors errors={field.state.meta.errors} />
+            </div>
+          )}
+        />
+        <form.Field
+          name="isActive"
+          children={(field) => (
+            <div className="flex items-center gap-2">
+              <input
+                id={field.name}
+                type="checkbox"
+                className="h-4 w-4"
+                checked={field.state.value}
+                onChange={(e) => field.handleChange(e.target.checked)}
+              />
+              <Label htmlFor={field.name}>Active</Label>
+            </div>
+          )}
+        />
+        <form.Field
+          name="isVerified"
+          children={(field) => (
+            <div className="flex items-center gap-2">
+              <input
+                id={field.name}
+                type="checkbox"
+                className="h-4 w-4"
+                checked={field.state.value}
+                onChange={(e) => field.handleChange(e.target.checked)}
+              />
+              <Label htmlFor={field.name}>Verified</Label>
+            </div>
+          )}
+        />
+        {updateUserMutation.isError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {errorMessage(updateUserMutation.error)}
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+      <SheetFooter>
+        <form.Subscribe
+          selector={(state) => [
+            state.canSubmit,
+            state.isSubmitting,
+            state.isDirty,
+          ]}
+          children={([canSubmit, isSubmitting, isDirty]) => (
+            <Button
+              type="submit"
+              disabled={!canSubmit || isSubmitting || !isDirty}
+            >
+              {isSubmitting && <Loader2 className="animate-spin" />}
+              Save changes
+            </Button>
+          )}
+        />
+      </SheetFooter>
+    </form>
+  );
+}
+
+export function EditUserSheet({
+  user,
+  open,
+  onOpenChange,
+}: EditUserSheetProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent>
+        <EditUserForm user={user} onSuccess={() => onOpenChange(false)} />
+      </SheetContent>
+    </Sheet>
+  );
+}
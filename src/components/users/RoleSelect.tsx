@@ -0,0 +1,39 @@
+//-- ./src/components/users/RoleSelect.tsx
+
+import { Role, type RoleType } from "@/domains/role";
+import { cn } from "@/lib/utils";
+
+/**
+ * # Role Select
+ *
+ * A native select styled to match the shadcn `Input`, with one option for each
+ * value of the `Role` enum.
+ */
+export function RoleSelect({
+  value,
+  onChange,
+  className,
+  ...props
+}: Omit<React.ComponentProps<"select">, "value" | "onChange"> & {
+  value: RoleType;
+  onChange: (role: RoleType) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as RoleType)}
+      className={cn(
+        "border-input dark:bg-input/30 flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base capitalize shadow-xs outline-none md:text-sm",
+        "focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+        className
+      )}
+      {...props}
+    >
+      {Object.values(Role).map((role) => (
+        <option key={role} value={role}>
+          {role}
+        </option>
+      ))}
+    </select>
+  );
+}
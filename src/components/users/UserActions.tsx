@@ -0,0 +1,69 @@
+//-- ./src/components/users/UserActions.tsx
+
+import type { User } from "@/domains/user";
+import { MoreHorizontal } from "lucide-react";
+import { useState } from "react";
+import { Button } from "../shadcn_ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../shadcn_ui/dropdown-menu";
+import { DeleteUserDialog } from "./DeleteUserDialog";
+import { EditUserSheet } from "./EditUserSheet";
+
+/**
+ * # User Actions
+ *
+ * The actions dropdown for a single user row. The sheet and dialog are
+ * rendered outside the dropdown so they stay open once the menu closes.
+ */
+export function UserActions({ user }: { user: User }) {
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  return (
+    <>
+      {/* Non-modal so the menu does not fight the sheet or dialog over focus */}
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-8 w-8 p-0">
+            <span className="sr-only">Open menu</span>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Actions</DropdownMenuLabel>
+          <DropdownMenuItem
+            onClick={() => navigator.clipboard.writeText(user.id)}
+          >
+            Copy ID
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setIsEditOpen(true)}>
+            Update
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            variant="destructive"
+            onSelect={() => setIsDeleteOpen(true)}
+          >
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <EditUserSheet
+        user={user}
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+      />
+      <DeleteUserDialog
+        user={user}
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+      />
+    </>
+  );
+}
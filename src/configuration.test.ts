@@ -0,0 +1,176 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { configuration } from "./configuration";
+
+/**
+ * Serve the runtime configuration from the mocked fetch
+ */
+function serveRuntimeConfiguration(body: string) {
+  vi.spyOn(globalThis, "fetch").mockResolvedValue(
+    new Response(body, { headers: { "content-type": "application/json" } })
+  );
+}
+
+describe("configuration.load", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    serveRuntimeConfiguration("{}");
+    await configuration.load();
+  });
+
+  it("applies the runtime configuration", async () => {
+    serveRuntimeConfiguration(
+      JSON.stringify({
+        AUTHENTICATION_BASE_URL: "https://auth.example.com",
+        IDLE_TIMEOUT_SECONDS: "300",
+      })
+    );
+
+    await configuration.load();
+
+    expect(configuration.isValid).toBe(true);
+    expect(configuration.AUTHENTICATION_BASE_URL).toBe(
+      "https://auth.example.com"
+    );
+    expect(configuration.IDLE_TIMEOUT_SECONDS).toBe(300);
+  });
+
+  it("ignores unknown keys with a warning", async () => {
+    serveRuntimeConfiguration(
+      JSON.stringify({
+        AUTHENTICATION_BASE_URL: "https://auth.example.com",
+        UNRELATED_SETTING: "value",
+      })
+    );
+
+    await configuration.load();
+
+    expect(configuration.isValid).toBe(true);
+    expect(configuration.AUTHENTICATION_BASE_URL).toBe(
+      "https://auth.example.com"
+    );
+    expect(configuration.warnings).toEqual([
+      {
+        key: "UNRELATED_SETTING",
+        message: "Not a configuration setting, it is ignored",
+      },
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("UNRELATED_SETTING")
+    );
+  });
+
+  it("merges the retry policies over the default policies", async () => {
+    serveRuntimeConfiguration(
+      JSON.stringify({
+        GRPC_RETRY_POLICIES: JSON.stringify({
+          "authentication.UsersService/Index": { maxAttempts: 5 },
+          "authentication.UtilitiesService/Ping": { maxAttempts: 1 },
+        }),
+      })
+    );
+
+    await configuration.load();
+
+    expect(configuration.isValid).toBe(true);
+    expect(configuration.GRPC_RETRY_POLICIES).toMatchObject({
+      "authentication.UsersService/Read": {},
+      "authentication.UsersService/Index": { maxAttempts: 5 },
+      "authentication.UtilitiesService/Ping": { maxAttempts: 1 },
+    });
+  });
+
+  it("rejects unknown retry policy limits", async () => {
+    serveRuntimeConfiguration(
+      JSON.stringify({
+        GRPC_RETRY_POLICIES: {
+          "authentication.UsersService/Index": { attempts: 5 },
+        },
+      })
+    );
+
+    await configuration.load();
+
+    expect(configuration.isValid).toBe(false);
+    expect(configuration.issues).toContainEqual(
+      expect.objectContaining({
+        key: expect.stringMatching(/^GRPC_RETRY_POLICIES/),
+      })
+    );
+  });
+
+  it("keeps the defaults when a setting is invalid", async () => {
+    serveRuntimeConfiguration(
+      JSON.stringify({ AUTHENTICATION_BASE_URL: "not a url" })
+    );
+
+    await configuration.load();
+
+    expect(configuration.isValid).toBe(false);
+    expect(configuration.issues).toContainEqual({
+      key: "AUTHENTICATION_BASE_URL",
+      message: "Must be a URL",
+    });
+    expect(configuration.AUTHENTICATION_BASE_URL).toBe("http://127.0.0.1:8081");
+  });
+});
+
+describe("env.sh", () => {
+  let targetDir: string;
+
+  beforeEach(() => {
+    targetDir = mkdtempSync(join(tmpdir(), "web-app-"));
+  });
+
+  afterEach(() => {
+    rmSync(targetDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Run the container script with the variables, and read the written file
+   */
+  function writeRuntimeConfiguration(variables: Record<string, string>) {
+    execFileSync("bash", [resolve(__dirname, "../env.sh")], {
+      env: {
+        PATH: process.env.PATH,
+        TARGET_DIR1: targetDir,
+        TARGET_DIR2: join(targetDir, "missing"),
+        ...variables,
+      },
+      stdio: "pipe",
+    });
+
+    return JSON.parse(readFileSync(join(targetDir, "config.json"), "utf8"));
+  }
+
+  it("writes the prefixed settings without the prefix", () => {
+    const runtimeConfiguration = writeRuntimeConfiguration({
+      AUTHENTICATION_SERVICE_AUTHENTICATION_BASE_URL:
+        "https://auth.example.com",
+      AUTHENTICATION_SERVICE_GRPC_METHOD_DEADLINES_MS:
+        '{"authentication.UtilitiesService/Ping":1000}',
+    });
+
+    expect(runtimeConfiguration).toEqual({
+      AUTHENTICATION_BASE_URL: "https://auth.example.com",
+      GRPC_METHOD_DEADLINES_MS: '{"authentication.UtilitiesService/Ping":1000}',
+    });
+  });
+
+  it("skips prefixed variables that are not settings", () => {
+    // Container platforms add variables like this for linked services
+    const runtimeConfiguration = writeRuntimeConfiguration({
+      AUTHENTICATION_SERVICE_LOG_LEVEL: "warn",
+      AUTHENTICATION_SERVICE_PORT: "tcp://10.0.0.1:8081",
+    });
+
+    expect(runtimeConfiguration).toEqual({ LOG_LEVEL: "warn" });
+  });
+});
@@ -7,28 +7,288 @@
  *
  * The configuration module is responsible for providing the application with
  * configuration settings. The configuration settings are loaded from the
- * environment variables in ./src/config.
+ * environment variables in ./config, and at runtime from `config.json` served
+ * next to `index.html`. Values in `config.json` use the setting names without
+ * the `VITE_` prefix and take precedence over the environment.
  *
- * Add a new configuration setting by adding a new property to the Configuration
- * class and setting the value in the constructor.
+ * Every setting is validated by `configurationSchema`. An invalid configuration
+ * is not partly applied, the problems are kept in `issues` and the application
+ * shows them on the configuration error page instead of starting. Keys that are
+ * not settings are ignored, they are kept in `warnings` and logged.
+ *
+ * Add a new configuration setting by adding it to `configurationSchema` and
+ * `environmentSource()`, and adding a property to the Configuration class that
+ * is assigned in `set()` and returned by `values`. The container writes
+ * `config.json` with `env.sh`, add the setting to its `CONFIGURATION_KEYS` too.
  *
  * @class Configuration
  * @property {string} APPLICATION_MODE - Application mode for the environment (i.e. development or production.)
  * @property {string} AUTHENTICATION_URL - Base URL for the authentication service
  * @property {string} LOG_LEVEL - Log level for the application  *
+ * @property {number} IDLE_TIMEOUT_SECONDS - Inactivity before automatic logout, 0 disables it
+ * @property {number} IDLE_WARNING_SECONDS - Countdown shown before the idle logout
+ * @property {number} GRPC_DEADLINE_MS - Default deadline for gRPC calls
+ * @property {Record<string, number>} GRPC_METHOD_DEADLINES_MS - Deadlines for single gRPC methods
+ * @property {Record<string, RetryPolicySetting>} GRPC_RETRY_POLICIES - gRPC methods that are retried, and their limits
+ * @property {number} PING_INTERVAL_SECONDS - How often the backend health is checked, 0 disables polling
  *
  * ## Reference
  *
  */
 
-type logLevel =
-  | "silly"
-  | "trace"
-  | "debug"
-  | "info"
-  | "warn"
-  | "error"
-  | "fatal";
+import { z } from "zod";
+
+const LOG_LEVELS = [
+  "silly",
+  "trace",
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "fatal",
+] as const;
+
+type logLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Deadlines given to methods unless the configuration sets their own. Ping
+ * should answer quickly, an index can take longer than the default.
+ */
+const DEFAULT_METHOD_DEADLINES_MS: Record<string, number> = {
+  "authentication.UtilitiesService/Ping": 5_000,
+  "authentication.UsersService/Index": 60_000,
+  "authentication.SessionsService/Index": 60_000,
+};
+
+/**
+ * Methods retried unless the configuration sets their own policy. Only methods
+ * without side effects are retried, a retried write could be applied twice. A
+ * refresh that never reached the backend leaves the refresh cookie unchanged,
+ * so it is safe to send again.
+ */
+const DEFAULT_RETRY_POLICIES: Record<string, RetryPolicySetting> = {
+  "authentication.UsersService/Read": {},
+  "authentication.UsersService/Index": {},
+  "authentication.SessionsService/Read": {},
+  "authentication.SessionsService/Index": {},
+  "authentication.UtilitiesService/Ping": { maxAttempts: 2 },
+  "authentication.AuthenticationService/Refresh": {},
+};
+
+/**
+ * Environment values are strings, parse a JSON string into its value
+ */
+function parseJsonString(value: unknown, context: z.RefinementCtx): unknown {
+  if (typeof value !== "string") return value;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Must be a JSON object",
+    });
+    return z.NEVER;
+  }
+}
+
+/**
+ * Keys of the settings for single methods, the gRPC path without the leading
+ * slash
+ */
+const grpcMethodPath = z
+  .string()
+  .regex(
+    /^[\w.]+\/\w+$/,
+    "Keys must be gRPC paths, for example authentication.UtilitiesService/Ping"
+  );
+
+/**
+ * The limits of a retried method that differ from the default retry policy,
+ * `maxAttempts: 1` turns retries off for a method
+ */
+const retryPolicySchema = z
+  .object({
+    maxAttempts: z.number().int().positive(),
+    initialBackoffMs: z.number().int().min(0),
+    maxBackoffMs: z.number().int().min(0),
+    backoffMultiplier: z.number().min(1),
+  })
+  .partial()
+  .strict();
+
+export type RetryPolicySetting = z.infer<typeof retryPolicySchema>;
+
+/**
+ * ### Configuration Schema
+ *
+ * Validates the raw configuration values and fills in the defaults. Numbers may
+ * be given as strings, as every environment value is a string. Unknown keys are
+ * left out of the result.
+ */
+export const configurationSchema = z
+  .object({
+    AUTHENTICATION_BASE_URL: z
+      .string()
+      .url("Must be a URL")
+      .refine((url) => /^https?:\/\//.test(url), "Must be an http or https URL")
+      .default("http://127.0.0.1:8081"),
+    LOG_LEVEL: z.enum(LOG_LEVELS).default("error"),
+    IDLE_TIMEOUT_SECONDS: z.coerce
+      .number({ invalid_type_error: "Must be a number" })
+      .int()
+      .min(0)
+      .default(900),
+    IDLE_WARNING_SECONDS: z.coerce
+      .number({ invalid_type_error: "Must be a number" })
+      .int()
+      .min(0)
+      .default(60),
+    GRPC_DEADLINE_MS: z.coerce
+      .number({ invalid_type_error: "Must be a number" })
+      .int()
+      .positive()
+      .default(30_000),
+    GRPC_METHOD_DEADLINES_MS: z
+      .preprocess(
+        parseJsonString,
+        z.record(grpcMethodPath, z.number().int().positive())
+      )
+      .default({})
+      .transform((deadlines) => ({
+        ...DEFAULT_METHOD_DEADLINES_MS,
+        ...deadlines,
+      })),
+    GRPC_RETRY_POLICIES: z
+      .preprocess(parseJsonString, z.record(grpcMethodPath, retryPolicySchema))
+      .default({})
+      .transform((policies) => ({
+        ...DEFAULT_RETRY_POLICIES,
+        ...policies,
+      })),
+    PING_INTERVAL_SECONDS: z.coerce
+      .number({ invalid_type_error: "Must be a number" })
+      .int()
+      .min(0)
+      .default(30),
+  })
+  .superRefine((values, context) => {
+    if (
+      values.IDLE_TIMEOUT_SECONDS > 0 &&
+      values.IDLE_WARNING_SECONDS >= values.IDLE_TIMEOUT_SECONDS
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["IDLE_WARNING_SECONDS"],
+        message: "Must be less than IDLE_TIMEOUT_SECONDS",
+      });
+    }
+
+    // Browsers block calls to http from a page served over https
+    if (
+      window.location.protocol === "https:" &&
+      values.AUTHENTICATION_BASE_URL.startsWith("http:")
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["AUTHENTICATION_BASE_URL"],
+        message: "Must use https when the application is served over https",
+      });
+    }
+  });
+
+/**
+ * ### Configuration Values
+ *
+ * The validated configuration, with defaults filled in.
+ */
+export type ConfigurationValues = z.output<typeof configurationSchema>;
+
+type ConfigurationKey = keyof ConfigurationValues;
+
+/**
+ * ### Configuration Source
+ *
+ * Raw configuration values before validation. Environment values are strings,
+ * the runtime configuration may also use numbers and objects.
+ */
+type ConfigurationSource = Record<string, unknown>;
+
+/**
+ * ### Configuration Issue
+ *
+ * A problem with the configuration, shown on the configuration error page.
+ */
+export type ConfigurationIssue = {
+  /**
+   * The configuration key, or the file, with the problem
+   */
+  key: string;
+  message: string;
+};
+
+/**
+ * Served next to `index.html`, so one build can be deployed to any environment
+ */
+const RUNTIME_CONFIGURATION_URL = `${import.meta.env.BASE_URL}config.json`;
+
+/**
+ * Variables that were renamed, and the key that replaced them
+ */
+const RENAMED_ENVIRONMENT_VARIABLES: Record<string, ConfigurationKey> = {
+  VITE_BASE_URL: "AUTHENTICATION_BASE_URL",
+};
+
+/**
+ * ### Environment Source
+ *
+ * The configuration values from the Vite environment variables, each prefixed
+ * with `VITE_`. Empty variables are left out, so they use the default.
+ */
+function environmentSource(): ConfigurationSource {
+  const source: Record<ConfigurationKey, unknown> = {
+    AUTHENTICATION_BASE_URL: import.meta.env.VITE_AUTHENTICATION_BASE_URL,
+    LOG_LEVEL: import.meta.env.VITE_LOG_LEVEL,
+    IDLE_TIMEOUT_SECONDS: import.meta.env.VITE_IDLE_TIMEOUT_SECONDS,
+    IDLE_WARNING_SECONDS: import.meta.env.VITE_IDLE_WARNING_SECONDS,
+    GRPC_DEADLINE_MS: import.meta.env.VITE_GRPC_DEADLINE_MS,
+    GRPC_METHOD_DEADLINES_MS: import.meta.env.VITE_GRPC_METHOD_DEADLINES_MS,
+    GRPC_RETRY_POLICIES: import.meta.env.VITE_GRPC_RETRY_POLICIES,
+    PING_INTERVAL_SECONDS: import.meta.env.VITE_PING_INTERVAL_SECONDS,
+  };
+
+  return Object.fromEntries(
+    Object.entries(source).filter(
+      ([, value]) => value !== undefined && value !== ""
+    )
+  );
+}
+
+/**
+ * A misspelled or removed setting would otherwise be ignored without a word
+ */
+function unknownKeyWarnings(source: ConfigurationSource): ConfigurationIssue[] {
+  const settings = configurationSchema.innerType().shape;
+
+  return Object.keys(source)
+    .filter((key) => !(key in settings))
+    .map((key) => ({
+      key,
+      message: "Not a configuration setting, it is ignored",
+    }));
+}
+
+/**
+ * An old variable name would otherwise be ignored without a word
+ */
+function renamedEnvironmentIssues(): ConfigurationIssue[] {
+  return Object.entries(RENAMED_ENVIRONMENT_VARIABLES)
+    .filter(([variable]) => import.meta.env[variable] !== undefined)
+    .map(([variable, key]) => ({
+      key: variable,
+      message: `No longer read, rename it to VITE_${key}`,
+    }));
+}
 
 /**
  * ### Application Configuration
@@ -59,17 +319,84 @@ class Configuration {
    * The base URL for the authentication backend service
    *
    */
-  AUTHENTICATION_BASE_URL: string;
+  AUTHENTICATION_BASE_URL!: string;
 
   /**
    * ### Application Log Level
    *
    * To what level of detail should we log
    */
-  LOG_LEVEL: logLevel;
+  LOG_LEVEL!: logLevel;
+
+  /**
+   * ### Idle Timeout Seconds
+   *
+   * How long the user can be inactive in the protected pages before they are
+   * logged out. `0` disables the idle timeout.
+   */
+  IDLE_TIMEOUT_SECONDS!: number;
+
+  /**
+   * ### Idle Warning Seconds
+   *
+   * How long before the idle logout to warn the user with a countdown.
+   */
+  IDLE_WARNING_SECONDS!: number;
+
+  /**
+   * ### gRPC Deadline Milliseconds
+   *
+   * How long a gRPC call may take before it fails with `DEADLINE_EXCEEDED`,
+   * unless the method has its own deadline.
+   */
+  GRPC_DEADLINE_MS!: number;
+
+  /**
+   * ### gRPC Method Deadlines Milliseconds
+   *
+   * Deadlines for single methods, keyed by the gRPC path without the leading
+   * slash, for example `authentication.UtilitiesService/Ping`.
+   */
+  GRPC_METHOD_DEADLINES_MS!: Record<string, number>;
+
+  /**
+   * ### gRPC Retry Policies
+   *
+   * The methods retried when the backend can not be reached, keyed by gRPC
+   * path like the deadlines. Each policy sets the limits that differ from the
+   * default retry policy, methods that are not listed are sent once.
+   */
+  GRPC_RETRY_POLICIES!: Record<string, RetryPolicySetting>;
+
+  /**
+   * ### Ping Interval Seconds
+   *
+   * How often the backend is pinged for the health indicator. `0` only pings
+   * once when the application loads.
+   */
+  PING_INTERVAL_SECONDS!: number;
+
+  /**
+   * ### Issues
+   *
+   * The problems found in the configuration, empty when it is valid. While
+   * there are issues every setting holds its default.
+   */
+  issues: ConfigurationIssue[] = [];
+
+  /**
+   * ### Warnings
+   *
+   * Keys in the configuration that are not settings. They are ignored and do
+   * not stop the application from starting.
+   */
+  warnings: ConfigurationIssue[] = [];
 
   /**
    * ### Configuration Class Constructor
+   *
+   * Starts from the Vite environment values, `load()` applies the runtime
+   * configuration over them.
    */
   private constructor() {
     // Set the application mode to the value of import.meta.env.MODE
@@ -77,20 +404,143 @@ class Configuration {
     // application mode for the environment (i.e. development or production.)
     this.APPLICATION_MODE = import.meta.env.MODE;
 
-    // Set the authentication base URL to the value of
-    // VITE_AUTHENTICATION_BASE_URL or default to localhost:8081 if not set.
-    // This is used to set the base URL for the authentication service.
-    if (!import.meta.env.VITE_AUTHENTICATION_BASE_URL) {
-      console.warn("VITE_APPLICATION_URL is not set.  Using default value.");
-      this.AUTHENTICATION_BASE_URL = "http://127.0.0.1:8081";
-    } else {
-      this.AUTHENTICATION_BASE_URL =
-        import.meta.env.VITE_AUTHENTICATION_BASE_URL;
+    this.apply(environmentSource());
+  }
+
+  /**
+   * ### Is Valid
+   *
+   * Whether the application can start with this configuration.
+   */
+  get isValid(): boolean {
+    return this.issues.length === 0;
+  }
+
+  /**
+   * ### Values
+   *
+   * The configuration settings as a plain object, for example to report them.
+   */
+  get values(): ConfigurationValues {
+    return {
+      AUTHENTICATION_BASE_URL: this.AUTHENTICATION_BASE_URL,
+      LOG_LEVEL: this.LOG_LEVEL,
+      IDLE_TIMEOUT_SECONDS: this.IDLE_TIMEOUT_SECONDS,
+      IDLE_WARNING_SECONDS: this.IDLE_WARNING_SECONDS,
+      GRPC_DEADLINE_MS: this.GRPC_DEADLINE_MS,
+      GRPC_METHOD_DEADLINES_MS: this.GRPC_METHOD_DEADLINES_MS,
+      GRPC_RETRY_POLICIES: this.GRPC_RETRY_POLICIES,
+      PING_INTERVAL_SECONDS: this.PING_INTERVAL_SECONDS,
+    };
+  }
+
+  /**
+   * ### Load
+   *
+   * Fetch the runtime configuration and apply it over the Vite environment
+   * values. Must finish before the modules that read the configuration are
+   * imported, so `main.tsx` waits on it before rendering.
+   *
+   * A missing `config.json` is not an error, the environment values are used.
+   *
+   * @param url - Where the runtime configuration is served
+   */
+  public async load(url: string = RUNTIME_CONFIGURATION_URL): Promise<void> {
+    let response: Response;
+
+    try {
+      response = await fetch(url, { cache: "no-store" });
+    } catch (error) {
+      console.warn(`Unable to load runtime configuration from ${url}:`, error);
+      return;
+    }
+
+    // The dev server answers unknown paths with index.html
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!response.ok || !contentType.includes("json")) {
+      console.info(`No runtime configuration at ${url}.`);
+      return;
+    }
+
+    let runtimeSource: unknown;
+    try {
+      runtimeSource = await response.json();
+    } catch {
+      this.fail([{ key: "config.json", message: "Must be valid JSON" }]);
+      return;
     }
 
-    // Set the log level to the value of VITE_LOG_LEVEL or default to error
-    // if not set.  This is used to set the log level for the application.
-    this.LOG_LEVEL = import.meta.env.VITE_LOG_LEVEL || "error";
+    if (
+      typeof runtimeSource !== "object" ||
+      runtimeSource === null ||
+      Array.isArray(runtimeSource)
+    ) {
+      this.fail([{ key: "config.json", message: "Must be a JSON object" }]);
+      return;
+    }
+
+    // Keys the runtime configuration leaves out keep their environment value
+    this.apply({ ...environmentSource(), ...runtimeSource });
+  }
+
+  /**
+   * ### Apply
+   *
+   * Validate the values in the source and set them. Nothing is set from an
+   * invalid source, every problem is kept in `issues` instead. Unknown keys
+   * are kept in `warnings`.
+   *
+   * @param source - Raw values keyed by configuration key
+   */
+  private apply(source: ConfigurationSource) {
+    const result = configurationSchema.safeParse(source);
+    const issues = renamedEnvironmentIssues();
+
+    this.warnings = unknownKeyWarnings(source);
+    this.warnings.forEach(({ key, message }) =>
+      console.warn(`Unknown configuration ${key}: ${message}`)
+    );
+
+    if (!result.success) {
+      issues.push(
+        ...result.error.issues.map((issue) => ({
+          key: issue.path.join(".") || "config.json",
+          message: issue.message,
+        }))
+      );
+    }
+
+    if (!result.success || issues.length > 0) {
+      this.fail(issues);
+      return;
+    }
+
+    this.issues = [];
+    this.set(result.data);
+  }
+
+  /**
+   * Keep the issues and fall back to the defaults, so modules that read the
+   * configuration when imported still get usable values
+   */
+  private fail(issues: ConfigurationIssue[]) {
+    issues.forEach(({ key, message }) =>
+      console.error(`Invalid configuration ${key}: ${message}`)
+    );
+
+    this.issues = issues;
+    this.set(configurationSchema.parse({}));
+  }
+
+  private set(values: ConfigurationValues) {
+    this.AUTHENTICATION_BASE_URL = values.AUTHENTICATION_BASE_URL;
+    this.LOG_LEVEL = values.LOG_LEVEL;
+    this.IDLE_TIMEOUT_SECONDS = values.IDLE_TIMEOUT_SECONDS;
+    this.IDLE_WARNING_SECONDS = values.IDLE_WARNING_SECONDS;
+    this.GRPC_DEADLINE_MS = values.GRPC_DEADLINE_MS;
+    this.GRPC_METHOD_DEADLINES_MS = values.GRPC_METHOD_DEADLINES_MS;
+    this.GRPC_RETRY_POLICIES = values.GRPC_RETRY_POLICIES;
+    this.PING_INTERVAL_SECONDS = values.PING_INTERVAL_SECONDS;
   }
 
   /**
@@ -117,6 +567,12 @@ class Configuration {
  * - AUTHENTICATION_BASE_URL - Base URL for the authentication service
  * - APPLICATION_MODE - Application mode for the environment (i.e. development or production.)
  * - LOG_LEVEL - Log level for the application
+ * - IDLE_TIMEOUT_SECONDS - Inactivity before automatic logout, 0 disables it
+ * - IDLE_WARNING_SECONDS - Countdown shown before the idle logout
+ * - GRPC_DEADLINE_MS - Default deadline for gRPC calls
+ * - GRPC_METHOD_DEADLINES_MS - Deadlines for single gRPC methods
+ * - GRPC_RETRY_POLICIES - gRPC methods that are retried, and their limits
+ * - PING_INTERVAL_SECONDS - How often the backend health is checked
  *
  */
 export const configuration = Configuration.getInstance();
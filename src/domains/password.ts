@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+/**
+ * Minimum number of characters in a new password
+ */
+export const PASSWORD_MIN_LENGTH = 12;
+
+/**
+ * # New Password Schema
+ *
+ * Zod schema for a new password chosen by a user, shared by the registration,
+ * change password and create user forms.
+ */
+export const newPasswordSchema = z
+  .string()
+  .min(
+    PASSWORD_MIN_LENGTH,
+    `Password must be at least ${PASSWORD_MIN_LENGTH} characters`
+  );
@@ -21,4 +21,23 @@ export type RoleType = `${Role}`;
  */
 export function isRole(value: string): value is Role {
   return Object.values(Role).includes(value as Role);
-}
\ No newline at end of file
+}
+
+/**
+ * # Has Role
+ *
+ * Check if a role is one of the allowed roles. An empty or missing list of
+ * allowed roles allows every role.
+ *
+ * @param role - The role to check, usually the current user's role
+ * @param allowed - The roles allowed
+ * @returns
+ */
+export function hasRole(
+  role: RoleType | undefined,
+  allowed?: readonly RoleType[]
+): boolean {
+  if (!allowed || allowed.length === 0) return true;
+
+  return role !== undefined && allowed.includes(role);
+}
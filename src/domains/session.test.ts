@@ -0,0 +1,95 @@
+import { SessionsResponse } from "@/lib/grpc/sessions";
+import { describe, expect, it } from "vitest";
+import {
+  findCurrentSession,
+  sessionFromSessionsResponse,
+  type Session,
+} from "./session";
+
+const sessionsResponse = SessionsResponse.create({
+  id: "0191f2a0-0000-7000-8000-000000000101",
+  userId: "0191f2a0-0000-7000-8000-000000000002",
+  loginOn: "2025-04-01T10:00:00Z",
+  expiresOn: "2025-04-08T10:00:00Z",
+  refreshToken: "refresh-token",
+  isActive: true,
+});
+
+function session(id: string, loginOn: string): Session {
+  return {
+    id,
+    userId: "0191f2a0-0000-7000-8000-000000000002",
+    loginOn: new Date(loginOn),
+    expiresOn: new Date("2099-01-01T00:00:00Z"),
+    isActive: true,
+  };
+}
+
+const sessions = [
+  session("0191f2a0-0000-7000-8000-000000000101", "2025-04-01T10:00:00.250Z"),
+  // Signed in later on another device
+  session("0191f2a0-0000-7000-8000-000000000102", "2025-04-02T10:00:00Z"),
+];
+
+describe("sessionFromSessionsResponse", () => {
+  it("maps the response dates", () => {
+    const session = sessionFromSessionsResponse({
+      ...sessionsResponse,
+      logoutOn: "2025-04-02T10:00:00Z",
+    });
+
+    expect(session.loginOn).toEqual(new Date("2025-04-01T10:00:00Z"));
+    expect(session.expiresOn).toEqual(new Date("2025-04-08T10:00:00Z"));
+    expect(session.logoutOn).toEqual(new Date("2025-04-02T10:00:00Z"));
+  });
+
+  it("leaves the logout date unset for a session that is not logged out", () => {
+    expect(
+      sessionFromSessionsResponse(sessionsResponse).logoutOn
+    ).toBeUndefined();
+  });
+
+  it("uses the epoch for unparsable dates", () => {
+    const session = sessionFromSessionsResponse({
+      ...sessionsResponse,
+      loginOn: "not a date",
+      expiresOn: "",
+      logoutOn: "not a date",
+    });
+
+    expect(session.loginOn).toEqual(new Date(0));
+    expect(session.expiresOn).toEqual(new Date(0));
+    expect(session.logoutOn).toEqual(new Date(0));
+  });
+});
+
+describe("findCurrentSession", () => {
+  it("finds the session that logged in when the login token was issued", () => {
+    // The `iat` claim is rounded down to the second
+    const loginIssuedAt = new Date("2025-04-01T10:00:00Z");
+
+    expect(findCurrentSession(sessions, loginIssuedAt)?.id).toBe(
+      "0191f2a0-0000-7000-8000-000000000101"
+    );
+  });
+
+  it("does not guess without a login time", () => {
+    expect(findCurrentSession(sessions, undefined)).toBeUndefined();
+  });
+
+  it("is undefined when no session logged in at the time", () => {
+    const loginIssuedAt = new Date("2025-04-03T10:00:00Z");
+
+    expect(findCurrentSession(sessions, loginIssuedAt)).toBeUndefined();
+  });
+
+  it("does not guess when two sessions logged in at the time", () => {
+    const loginIssuedAt = new Date("2025-04-01T10:00:00Z");
+    const together = [
+      ...sessions,
+      session("0191f2a0-0000-7000-8000-000000000103", "2025-04-01T10:00:01Z"),
+    ];
+
+    expect(findCurrentSession(together, loginIssuedAt)).toBeUndefined();
+  });
+});
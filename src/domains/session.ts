@@ -0,0 +1,126 @@
+import type { SessionsResponse } from "@/lib/grpc/sessions";
+import { dateFromString, type UUID } from "./user";
+
+/**
+ * Session
+ *
+ * Type representing a user session in the system. The refresh token is
+ * intentionally not carried over from the gRPC response.
+ */
+export type Session = {
+  /**
+   * The ID of the session
+   * This is a UUIDv7 string of the session
+   */
+  id: UUID;
+
+  /**
+   * The ID of the user the session belongs to
+   */
+  userId: UUID;
+
+  /**
+   * The date the session was created (user logged in)
+   */
+  loginOn: Date;
+
+  /**
+   * The IP address the user logged in from, if known
+   */
+  loginIp?: string;
+
+  /**
+   * The date the session expires
+   */
+  expiresOn: Date;
+
+  /**
+   * Whether the session is still active (not revoked)
+   */
+  isActive: boolean;
+
+  /**
+   * The date the user logged out of the session, if they have
+   */
+  logoutOn?: Date;
+
+  /**
+   * The IP address the user logged out from, if known
+   */
+  logoutIp?: string;
+};
+
+/**
+ * # IP From Integer
+ *
+ * The backend stores IPv4 addresses as a signed 32 bit integer. Convert the
+ * integer into dotted decimal notation for display.
+ *
+ * @param value - The signed 32 bit integer IP address
+ * @returns The dotted decimal IP address string or `undefined` if not set
+ */
+export function ipFromInteger(value?: number): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  // Shift into an unsigned 32 bit integer before splitting into octets
+  const unsigned = value >>> 0;
+
+  return [24, 16, 8, 0].map((shift) => (unsigned >>> shift) & 0xff).join(".");
+}
+
+/**
+ * # Session From SessionsResponse
+ *
+ * Maps a gRPC SessionsResponse to a domain Session type.
+ * @param rpc - The gRPC SessionsResponse object
+ * @returns The mapped Session domain object
+ */
+export function sessionFromSessionsResponse(rpc: SessionsResponse): Session {
+  return {
+    id: rpc.id,
+    userId: rpc.userId,
+    loginOn: dateFromString(rpc.loginOn),
+    loginIp: ipFromInteger(rpc.loginIp),
+    expiresOn: dateFromString(rpc.expiresOn),
+    isActive: rpc.isActive,
+    logoutOn: rpc.logoutOn ? dateFromString(rpc.logoutOn) : undefined,
+    logoutIp: ipFromInteger(rpc.logoutIp),
+  };
+}
+
+// The backend creates the session and issues the first access token in the
+// same request, the `iat` claim is rounded down to the second
+const LOGIN_ISSUED_TOLERANCE_MS = 5_000;
+
+/**
+ * # Find Current Session
+ *
+ * The refresh token identifying the session in use is an http-only cookie, so
+ * the browser cannot read it, and the backend does not name the session in the
+ * login response or the access token. The session in use is the one that
+ * logged in when the login's access token was issued, see `loginIssuedAt`.
+ *
+ * When no session, or more than one, logged in at that time no session is
+ * taken to be the current one, rather than guessing and revoking the session
+ * in use.
+ *
+ * @param sessions - The sessions belonging to the current user
+ * @param loginIssuedAt - When the access token of this browser's login was issued
+ * @returns The session in use or `undefined` if it can not be identified
+ */
+export function findCurrentSession(
+  sessions: Session[],
+  loginIssuedAt?: Date
+): Session | undefined {
+  if (!loginIssuedAt) return undefined;
+
+  const matches = sessions.filter(
+    (session) =>
+      Math.abs(session.loginOn.getTime() - loginIssuedAt.getTime()) <=
+      LOGIN_ISSUED_TOLERANCE_MS
+  );
+
+  return matches.length === 1 ? matches[0] : undefined;
+}
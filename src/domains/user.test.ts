@@ -0,0 +1,54 @@
+import { UserResponse } from "@/lib/grpc/users";
+import { describe, expect, it } from "vitest";
+import { userFromUserResponse } from "./user";
+
+const userResponse = UserResponse.create({
+  id: "0191f2a0-0000-7000-8000-000000000001",
+  email: "admin@example.com",
+  name: "Admin User",
+  role: "admin",
+  isActive: true,
+  isVerified: true,
+  createdOn: "2025-04-01T10:00:00Z",
+});
+
+describe("userFromUserResponse", () => {
+  it("maps the response fields", () => {
+    expect(userFromUserResponse(userResponse)).toEqual({
+      id: "0191f2a0-0000-7000-8000-000000000001",
+      email: "admin@example.com",
+      name: "Admin User",
+      role: "admin",
+      isActive: true,
+      isVerified: true,
+      createdOn: new Date("2025-04-01T10:00:00Z"),
+    });
+  });
+
+  it("falls back to the user role for an unknown role", () => {
+    const user = userFromUserResponse({ ...userResponse, role: "superuser" });
+
+    expect(user.role).toBe("user");
+  });
+
+  it("falls back to the user role for an empty role", () => {
+    const user = userFromUserResponse({ ...userResponse, role: "" });
+
+    expect(user.role).toBe("user");
+  });
+
+  it("uses the epoch for a missing created date", () => {
+    const user = userFromUserResponse({ ...userResponse, createdOn: "" });
+
+    expect(user.createdOn).toEqual(new Date(0));
+  });
+
+  it("uses the epoch for an unparsable created date", () => {
+    const user = userFromUserResponse({
+      ...userResponse,
+      createdOn: "not a date",
+    });
+
+    expect(user.createdOn).toEqual(new Date(0));
+  });
+});
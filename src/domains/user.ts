@@ -66,6 +66,21 @@ export function userFromUserResponse(rpc: UserResponse): User {
       : Role.User,
     isActive: rpc.isActive,
     isVerified: rpc.isVerified,
-    createdOn: rpc.createdOn ? new Date(rpc.createdOn) : new Date(0),
+    createdOn: dateFromString(rpc.createdOn),
   };
+}
+
+/**
+ * # Date From String
+ *
+ * A missing or unparsable date becomes the epoch, `new Date` would give an
+ * invalid date that throws when formatted
+ *
+ * @param value - The date string from a gRPC response
+ * @returns The date, or the epoch
+ */
+export function dateFromString(value: string): Date {
+  const date = new Date(value);
+
+  return value && !Number.isNaN(date.getTime()) ? date : new Date(0);
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { Empty } from "@/lib/grpc/common";
+import { UtilitiesService } from "@/lib/grpc/utilities";
+import { findMethod } from "@/lib/methodInfo";
+import { stackIntercept, TestTransport } from "@protobuf-ts/runtime-rpc";
+import { describe, expect, it } from "vitest";
+import authInterceptor from "./authInterceptor";
+
+const ping = findMethod(UtilitiesService, "Ping");
+
+/**
+ * Send a ping through the interceptor and return the metadata sent
+ */
+async function sentMeta(
+  getAccessToken: () => string | null | undefined,
+  meta?: Record<string, string>
+) {
+  const transport = new TestTransport();
+  const call = stackIntercept(
+    "unary",
+    transport,
+    ping,
+    transport.mergeOptions({
+      meta,
+      interceptors: [authInterceptor(getAccessToken)],
+    }),
+    Empty.create({})
+  );
+
+  await call;
+  return call.requestHeaders;
+}
+
+describe("authInterceptor", () => {
+  it("adds the bearer token", async () => {
+    await expect(sentMeta(() => "access-token")).resolves.toEqual({
+      authorization: "Bearer access-token",
+    });
+  });
+
+  it("keeps the other metadata", async () => {
+    await expect(
+      sentMeta(() => "access-token", { "x-request-id": "42" })
+    ).resolves.toEqual({
+      "x-request-id": "42",
+      authorization: "Bearer access-token",
+    });
+  });
+
+  it.each([undefined, null, ""])(
+    "sends no authorization without a token (%o)",
+    async (token) => {
+      await expect(sentMeta(() => token)).resolves.toEqual({});
+    }
+  );
+
+  it("reads the current token for every call", async () => {
+    let token = "first-token";
+    const getAccessToken = () => token;
+
+    await expect(sentMeta(getAccessToken)).resolves.toEqual({
+      authorization: "Bearer first-token",
+    });
+
+    token = "second-token";
+
+    await expect(sentMeta(getAccessToken)).resolves.toEqual({
+      authorization: "Bearer second-token",
+    });
+  });
+});
@@ -14,19 +14,24 @@ const log = Logger.getInstance();
  * # Auth Interceptor
  *
  * The auth interceptor is responsible for adding the authorization header to the
- * request. It will optionally set the authorisation header in the grpc request if an
- * access token is provided.
+ * request. It will optionally set the authorisation header in the grpc request if the
+ * token provider returns an access token. The provider is called for every request,
+ * so the interceptor always sends the current token.
  *
- * @param accessToken? - Optional access token to use in the grpc request
+ * @param getAccessToken - Returns the access token to use in the grpc request, if any
  * @returns {RpcInterceptor} - The auth interceptor
  */
-const authInterceptor = (accessToken?: string): RpcInterceptor => ({
+const authInterceptor = (
+  getAccessToken: () => string | null | undefined
+): RpcInterceptor => ({
   interceptUnary(next, method, input, options): UnaryCall {
     // Initialise the meta object if it doesn't exist in the request
     if (!options.meta) {
       options.meta = {};
     }
 
+    const accessToken = getAccessToken();
+
     // Add Authorization header if access token is provided only
     if (accessToken) {
       options.meta = {
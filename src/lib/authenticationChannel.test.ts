@@ -0,0 +1,52 @@
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import {
+  publishAuthenticationEvent,
+  subscribeToAuthenticationEvents,
+} from "./authenticationChannel";
+
+describe("authenticationChannel", () => {
+  // Another tab, on the same channel as the application
+  const otherTab = new BroadcastChannel("authentication");
+
+  afterEach(() => {
+    otherTab.onmessage = null;
+  });
+
+  afterAll(() => {
+    otherTab.close();
+  });
+
+  it("hears the activity of another tab", async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToAuthenticationEvents(listener);
+
+    otherTab.postMessage({ type: "activity", at: 1_000 });
+
+    await vi.waitFor(() =>
+      expect(listener).toHaveBeenCalledWith({ type: "activity", at: 1_000 })
+    );
+    unsubscribe();
+  });
+
+  it("ignores activity without a time", async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToAuthenticationEvents(listener);
+
+    otherTab.postMessage({ type: "activity" });
+    otherTab.postMessage({ type: "logout" });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(listener.mock.calls).toEqual([[{ type: "logout" }]]);
+    unsubscribe();
+  });
+
+  it("shares this tab's activity", async () => {
+    const received = new Promise((resolve) => {
+      otherTab.onmessage = (message) => resolve(message.data);
+    });
+
+    publishAuthenticationEvent({ type: "activity", at: 2_000 });
+
+    await expect(received).resolves.toEqual({ type: "activity", at: 2_000 });
+  });
+});
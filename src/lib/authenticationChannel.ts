@@ -0,0 +1,148 @@
+//-- ./src/lib/authenticationChannel.ts
+
+/**
+ * # Authentication Channel
+ *
+ * Shares login, logout and refresh events between tabs of the application, and
+ * the user's activity for the idle timeout.
+ *
+ * Events are sent on a `BroadcastChannel`, which keeps them in memory, so a
+ * login or refresh event can carry the new session. Browsers without
+ * `BroadcastChannel` fall back to the `storage` event on `localStorage`. The
+ * fallback only writes the event type and time, tokens are never written to
+ * storage, so the receiving tab refreshes its own access token using the shared
+ * cookie.
+ */
+
+import type { User } from "@/domains/user";
+import Logger from "@/logger";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+const CHANNEL_NAME = "authentication";
+
+// The localStorage key used by the storage event fallback
+const STORAGE_KEY = "authentication_event";
+
+/**
+ * The session shared with other tabs over the broadcast channel
+ */
+export type AuthenticationSession = {
+  accessToken: string;
+  user: User;
+};
+
+/**
+ * # Authentication Event
+ *
+ * `session` is only present when the event arrived over the broadcast channel.
+ * An `activity` event carries when the user last used the other tab.
+ */
+export type AuthenticationEvent =
+  | { type: "login" | "refresh"; session?: AuthenticationSession }
+  | { type: "logout" }
+  | { type: "activity"; at: number };
+
+type AuthenticationEventListener = (event: AuthenticationEvent) => void;
+
+const listeners = new Set<AuthenticationEventListener>();
+
+// Created on first use, one channel per tab so a tab never hears itself
+let channel: BroadcastChannel | undefined;
+
+function isAuthenticationEvent(value: unknown): value is AuthenticationEvent {
+  if (typeof value !== "object" || value === null) return false;
+
+  const { type, at } = value as { type?: unknown; at?: unknown };
+
+  if (type === "activity") return typeof at === "number";
+
+  return type === "login" || type === "refresh" || type === "logout";
+}
+
+function notify(event: unknown) {
+  if (!isAuthenticationEvent(event)) {
+    log.warn("Ignoring unknown authentication event:", event);
+    return;
+  }
+
+  log.debug("Authentication event from another tab:", event.type);
+  listeners.forEach((listener) => listener(event));
+}
+
+function onStorage(event: StorageEvent) {
+  if (event.key !== STORAGE_KEY || !event.newValue) return;
+
+  try {
+    const { type, at } = JSON.parse(event.newValue) as {
+      type?: unknown;
+      at?: unknown;
+    };
+    notify({ type, at });
+  } catch (error) {
+    log.warn("Ignoring malformed authentication storage event:", error);
+  }
+}
+
+function getChannel(): BroadcastChannel | undefined {
+  if (!channel && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (message: MessageEvent) => notify(message.data);
+  }
+
+  return channel;
+}
+
+/**
+ * # Publish Authentication Event
+ *
+ * Send an authentication event to the other tabs.
+ *
+ * @param event - The event, the session is dropped by the storage fallback
+ */
+export function publishAuthenticationEvent(event: AuthenticationEvent) {
+  const broadcastChannel = getChannel();
+
+  if (broadcastChannel) {
+    broadcastChannel.postMessage(event);
+    return;
+  }
+
+  try {
+    // The timestamp makes every write a change, so the storage event fires
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        type: event.type,
+        at: event.type === "activity" ? event.at : Date.now(),
+      })
+    );
+  } catch (error) {
+    log.warn("Unable to share authentication event with other tabs:", error);
+  }
+}
+
+/**
+ * # Subscribe To Authentication Events
+ *
+ * @param listener - Called with each event published by another tab
+ * @returns A function that removes the listener
+ */
+export function subscribeToAuthenticationEvents(
+  listener: AuthenticationEventListener
+): () => void {
+  if (listeners.size === 0 && !getChannel()) {
+    window.addEventListener("storage", onStorage);
+  }
+
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+
+    if (listeners.size === 0 && !channel) {
+      window.removeEventListener("storage", onStorage);
+    }
+  };
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitBreaker } from "./circuitBreaker";
+
+/**
+ * A circuit breaker that is half open, after its reset timeout ran out
+ */
+function halfOpenCircuitBreaker(): CircuitBreaker {
+  const circuitBreaker = new CircuitBreaker({
+    failureThreshold: 1,
+    resetTimeoutMs: 1_000,
+  });
+
+  circuitBreaker.allowRequest();
+  circuitBreaker.recordFailure();
+  vi.advanceTimersByTime(1_000);
+
+  return circuitBreaker;
+}
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens after the failure threshold and fails fast", () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.getState()).toBe("closed");
+
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.getState()).toBe("open");
+    expect(circuitBreaker.allowRequest()).toBe(false);
+  });
+
+  it("counts only failures in a row", () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordSuccess();
+    circuitBreaker.recordFailure();
+
+    expect(circuitBreaker.getState()).toBe("closed");
+  });
+
+  it("is half open once the reset timeout ran out", () => {
+    const circuitBreaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 1_000,
+    });
+
+    circuitBreaker.recordFailure();
+    vi.advanceTimersByTime(999);
+    expect(circuitBreaker.getState()).toBe("open");
+
+    vi.advanceTimersByTime(1);
+    expect(circuitBreaker.getState()).toBe("halfOpen");
+  });
+
+  it("closes when the trial call succeeds", () => {
+    const circuitBreaker = halfOpenCircuitBreaker();
+
+    circuitBreaker.allowRequest();
+    circuitBreaker.recordSuccess();
+
+    expect(circuitBreaker.getState()).toBe("closed");
+    expect(circuitBreaker.allowRequest()).toBe(true);
+  });
+
+  it("opens again when the trial call fails", () => {
+    const circuitBreaker = halfOpenCircuitBreaker();
+
+    circuitBreaker.allowRequest();
+    circuitBreaker.recordFailure();
+
+    expect(circuitBreaker.getState()).toBe("open");
+  });
+
+  it("lets a new trial call through after a cancelled one", () => {
+    const circuitBreaker = halfOpenCircuitBreaker();
+
+    circuitBreaker.allowRequest();
+    circuitBreaker.recordCancelled();
+
+    expect(circuitBreaker.getState()).toBe("halfOpen");
+    expect(circuitBreaker.allowRequest()).toBe(true);
+  });
+
+  it("notifies the listeners of each state change", () => {
+    const circuitBreaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 1_000,
+    });
+    const listener = vi.fn();
+    circuitBreaker.subscribe(listener);
+
+    circuitBreaker.recordFailure();
+    vi.advanceTimersByTime(1_000);
+    circuitBreaker.allowRequest();
+    circuitBreaker.recordSuccess();
+
+    expect(listener.mock.calls).toEqual([["open"], ["halfOpen"], ["closed"]]);
+  });
+
+  it("lets a single trial call through when half open", () => {
+    const circuitBreaker = halfOpenCircuitBreaker();
+
+    expect(circuitBreaker.getState()).toBe("halfOpen");
+    expect(circuitBreaker.allowRequest()).toBe(true);
+    expect(circuitBreaker.allowRequest()).toBe(false);
+  });
+
+  it("lets a call nested in the trial call through", () => {
+    const circuitBreaker = halfOpenCircuitBreaker();
+
+    expect(circuitBreaker.allowRequest()).toBe(true);
+    expect(circuitBreaker.allowRequest(true)).toBe(true);
+
+    circuitBreaker.recordSuccess();
+    circuitBreaker.recordSuccess();
+
+    expect(circuitBreaker.getState()).toBe("closed");
+  });
+});
@@ -0,0 +1,194 @@
+//-- ./src/lib/circuitBreaker.ts
+
+/**
+ * # Circuit Breaker
+ *
+ * Stops sending requests to a backend that keeps failing. After
+ * `failureThreshold` transient failures in a row the circuit opens and calls
+ * fail fast with `UNAVAILABLE`. Once `resetTimeoutMs` has passed the circuit is
+ * half open, a single trial call is let through, and its outcome closes or
+ * reopens the circuit.
+ */
+
+import Logger from "@/logger";
+import { GrpcStatusCode } from "@protobuf-ts/grpcweb-transport";
+import { RpcError } from "@protobuf-ts/runtime-rpc";
+import { useSyncExternalStore } from "react";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+/**
+ * # Circuit State
+ *
+ * - `closed` - calls are sent as usual
+ * - `open` - calls fail fast without reaching the backend
+ * - `halfOpen` - one trial call is sent to test the backend
+ */
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export type CircuitBreakerOptions = {
+  /**
+   * Transient failures in a row that open the circuit
+   */
+  failureThreshold: number;
+
+  /**
+   * How long the circuit stays open before a trial call is allowed
+   */
+  resetTimeoutMs: number;
+};
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+type CircuitStateListener = (state: CircuitState) => void;
+
+/**
+ * # Circuit Open Error
+ *
+ * Thrown instead of sending a call while the circuit is open. The `UNAVAILABLE`
+ * code lets the error taxonomy treat it like the backend being down.
+ */
+export class CircuitOpenError extends RpcError {
+  constructor(methodName: string) {
+    super(
+      `Circuit breaker is open, ${methodName} was not sent`,
+      GrpcStatusCode[GrpcStatusCode.UNAVAILABLE]
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+
+  private state: CircuitState = "closed";
+
+  private failures = 0;
+
+  // Whether the half open trial call has been sent and not yet settled
+  private isTrialInFlight = false;
+
+  private resetTimer: ReturnType<typeof setTimeout> | undefined;
+
+  private listeners = new Set<CircuitStateListener>();
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  /**
+   * The current state of the circuit
+   */
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * # Subscribe
+   *
+   * @param listener - Called with the new state whenever it changes
+   * @returns A function that removes the listener
+   */
+  public subscribe(listener: CircuitStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * # Allow Request
+   *
+   * Ask before sending a call. Every allowed call must be followed by
+   * `recordSuccess`, `recordFailure` or `recordCancelled`.
+   *
+   * @param isNestedCall - Whether the call is sent by a call in flight, which
+   * waits on it. It is let through while that call is the trial call.
+   * @returns Whether the call may be sent
+   */
+  public allowRequest(isNestedCall = false): boolean {
+    switch (this.state) {
+      case "closed":
+        return true;
+      case "open":
+        return false;
+      case "halfOpen":
+        if (this.isTrialInFlight) return isNestedCall;
+        this.isTrialInFlight = true;
+        return true;
+    }
+  }
+
+  /**
+   * The backend answered, even an error status means it is up
+   */
+  public recordSuccess() {
+    this.failures = 0;
+    this.isTrialInFlight = false;
+    this.setState("closed");
+  }
+
+  /**
+   * The caller cancelled the call, the state is left as it is
+   */
+  public recordCancelled() {
+    this.isTrialInFlight = false;
+  }
+
+  /**
+   * The backend could not be reached or did not answer in time
+   */
+  public recordFailure() {
+    this.isTrialInFlight = false;
+    this.failures += 1;
+
+    if (
+      this.state === "halfOpen" ||
+      this.failures >= this.options.failureThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open() {
+    clearTimeout(this.resetTimer);
+    this.resetTimer = setTimeout(
+      () => this.setState("halfOpen"),
+      this.options.resetTimeoutMs
+    );
+
+    this.setState("open");
+  }
+
+  private setState(state: CircuitState) {
+    if (this.state === state) return;
+
+    log.info(`Circuit breaker ${this.state} -> ${state}`);
+
+    this.state = state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+/**
+ * # Backend Circuit Breaker
+ *
+ * The circuit breaker shared by every call on the gRPC transport.
+ */
+export const backendCircuitBreaker = new CircuitBreaker();
+
+/**
+ * # Use Circuit State
+ *
+ * The state of the backend circuit breaker, re-rendering when it changes.
+ */
+export function useCircuitState(): CircuitState {
+  return useSyncExternalStore(
+    (onChange) => backendCircuitBreaker.subscribe(onChange),
+    () => backendCircuitBreaker.getState()
+  );
+}
@@ -0,0 +1,80 @@
+import { ReadUserRequest, UserResponse, UsersService } from "@/lib/grpc/users";
+import { findMethod } from "@/lib/methodInfo";
+import {
+  TestTransport,
+  type NextUnaryFn,
+  type RpcOptions,
+} from "@protobuf-ts/runtime-rpc";
+import { describe, expect, it } from "vitest";
+import deadlineInterceptor from "./deadlineInterceptor";
+
+const read = findMethod(UsersService, "Read");
+
+const userResponse = UserResponse.create({
+  id: "0191f2a0-0000-7000-8000-000000000002",
+  email: "user@example.com",
+});
+
+// A deadline short enough to run out during a test
+const DEADLINE_MS = 200;
+
+/**
+ * Send a call through the interceptor, the backend takes `latencyMs` to answer
+ */
+function send(latencyMs: number, options: RpcOptions = {}) {
+  const sent: RpcOptions[] = [];
+  const next: NextUnaryFn = (method, input, options) => {
+    sent.push(options);
+
+    const transport = new TestTransport({ response: userResponse });
+    transport.responseDelay = latencyMs;
+
+    return transport.unary(method, input, options);
+  };
+
+  const call = deadlineInterceptor({}, DEADLINE_MS).interceptUnary!(
+    next,
+    read,
+    ReadUserRequest.create({ id: userResponse.id }),
+    options
+  );
+
+  return { call, sent };
+}
+
+describe("deadlineInterceptor", () => {
+  it("sends the deadline to the backend as the timeout", async () => {
+    const { call, sent } = send(0);
+
+    await expect(call.response).resolves.toEqual(userResponse);
+    expect(sent[0].timeout).toBe(DEADLINE_MS);
+  });
+
+  it("keeps the timeout the caller set", async () => {
+    const { call, sent } = send(0, { timeout: 1_000 });
+
+    await call.response;
+    expect(sent[0].timeout).toBe(1_000);
+  });
+
+  it("stops waiting for a backend that never answers", async () => {
+    // Answers long after the test would have timed out
+    const { call } = send(60_000);
+
+    await expect(call.response).rejects.toMatchObject({
+      code: "DEADLINE_EXCEEDED",
+    });
+    await expect(call.status).rejects.toMatchObject({
+      code: "DEADLINE_EXCEEDED",
+    });
+  });
+
+  it("leaves a call the caller aborted cancelled", async () => {
+    const controller = new AbortController();
+    const { call } = send(60_000, { abort: controller.signal });
+
+    controller.abort();
+
+    await expect(call.response).rejects.toMatchObject({ code: "CANCELLED" });
+  });
+});
@@ -0,0 +1,89 @@
+//-- ./src/lib/deadlineInterceptor.ts
+
+/**
+ * # Deadline Interceptor
+ *
+ * Gives every call a deadline, so the backend stops working on calls the
+ * client no longer waits for, and the client stops waiting for calls the
+ * backend never answers.
+ */
+
+import { configuration } from "@/configuration";
+import { methodKey } from "@/lib/methodInfo";
+import { GrpcStatusCode } from "@protobuf-ts/grpcweb-transport";
+import {
+  RpcError,
+  UnaryCall,
+  type RpcInterceptor,
+} from "@protobuf-ts/runtime-rpc";
+
+/**
+ * # Deadline Interceptor
+ *
+ * Sets the `timeout` of calls that were not given one, from the method's
+ * deadline in `GRPC_METHOD_DEADLINES_MS` or else `GRPC_DEADLINE_MS`. The
+ * timeout is relative, so each retry of a call gets the full deadline.
+ *
+ * The transport only sends the timeout to the backend as the `grpc-timeout`
+ * header. The call is also aborted once the timeout runs out, and then fails
+ * with `DEADLINE_EXCEEDED`, unless the caller aborted it first.
+ *
+ * @param deadlines - Deadlines in milliseconds keyed by method
+ * @param defaultDeadline - The deadline for methods without their own
+ * @returns {RpcInterceptor} - The deadline interceptor
+ */
+const deadlineInterceptor = (
+  deadlines: Record<string, number> = configuration.GRPC_METHOD_DEADLINES_MS,
+  defaultDeadline: number = configuration.GRPC_DEADLINE_MS
+): RpcInterceptor => ({
+  interceptUnary(next, method, input, options) {
+    const timeout =
+      options.timeout ?? deadlines[methodKey(method)] ?? defaultDeadline;
+    const timeoutMs =
+      typeof timeout === "number"
+        ? timeout
+        : Math.max(0, timeout.getTime() - Date.now());
+
+    const deadline = AbortSignal.timeout(timeoutMs);
+    const abort = options.abort
+      ? AbortSignal.any([options.abort, deadline])
+      : deadline;
+
+    const call = next(method, input, { ...options, timeout, abort });
+
+    // The transport fails an aborted call as cancelled, or fetch's timeout as
+    // an internal error
+    const withDeadline = <T>(promise: Promise<T>): Promise<T> =>
+      promise.catch((error) => {
+        if (deadline.aborted && !options.abort?.aborted) {
+          throw new RpcError(
+            `${method.name} did not answer within ${timeoutMs}ms`,
+            GrpcStatusCode[GrpcStatusCode.DEADLINE_EXCEEDED]
+          );
+        }
+
+        throw error;
+      });
+
+    const headers = withDeadline(call.headers);
+    const status = withDeadline(call.status);
+    const trailers = withDeadline(call.trailers);
+
+    // Callers usually only await the response, the error surfaces there
+    [headers, status, trailers].forEach((promise) =>
+      promise.catch(() => undefined)
+    );
+
+    return new UnaryCall(
+      method,
+      call.requestHeaders,
+      call.request,
+      headers,
+      withDeadline(call.response),
+      status,
+      trailers
+    );
+  },
+});
+
+export default deadlineInterceptor;
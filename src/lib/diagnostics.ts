@@ -0,0 +1,284 @@
+//-- ./src/lib/diagnostics.ts
+
+/**
+ * # Diagnostics
+ *
+ * Checks the connection to the backend for the /status route, and builds a
+ * report users can paste into a ticket.
+ *
+ * The browser does not say why a request was blocked, a CORS error looks the
+ * same as a backend that is down. When the ping fails without a response,
+ * more probes are sent to tell the two apart:
+ *
+ * 1. A ping without cookies. If it answers, the backend does not allow
+ *    credentialed requests from this origin, so the refresh cookie can not be
+ *    sent.
+ * 2. A `no-cors` request to the base URL. If it answers, the backend is up but
+ *    does not allow requests from this origin at all.
+ * 3. Otherwise the backend could not be reached.
+ */
+
+import { Client } from "@/client";
+import { configuration, type ConfigurationValues } from "@/configuration";
+import { backendCircuitBreaker, type CircuitState } from "@/lib/circuitBreaker";
+import deadlineInterceptor from "@/lib/deadlineInterceptor";
+import { errorKind, errorMessage, type ErrorKind } from "@/lib/errors";
+import { Empty } from "@/lib/grpc/common";
+import { UtilitiesServiceClient } from "@/lib/grpc/utilities.client";
+import { GrpcWebFetchTransport } from "@protobuf-ts/grpcweb-transport";
+import { RpcError, type RpcTransport } from "@protobuf-ts/runtime-rpc";
+
+/**
+ * # Transport Ping
+ *
+ * The outcome of a ping sent through a transport.
+ */
+export type TransportPing = {
+  ok: boolean;
+  latencyMs: number;
+
+  /**
+   * The server's ping message when the ping succeeded
+   */
+  message?: string;
+
+  /**
+   * Why the ping failed
+   */
+  error?: {
+    kind: ErrorKind;
+    code?: string;
+    message: string;
+  };
+};
+
+/**
+ * # Connectivity Problem
+ *
+ * - `offline` - the browser has no network connection
+ * - `credentials` - the backend answers, but not to requests with cookies
+ * - `cors` - the backend is up, but does not allow requests from this origin
+ * - `unreachable` - nothing answered at the base URL
+ */
+export type ConnectivityProblem =
+  | "offline"
+  | "credentials"
+  | "cors"
+  | "unreachable";
+
+/**
+ * # Diagnostics Report
+ */
+export type DiagnosticsReport = {
+  createdAt: Date;
+  ping: TransportPing;
+  problem?: ConnectivityProblem;
+  circuitState: CircuitState;
+
+  /**
+   * The resolved configuration, with secrets redacted
+   */
+  configuration: Record<string, string>;
+
+  build: {
+    mode: string;
+    basePath: string;
+    origin: string;
+    userAgent: string;
+  };
+};
+
+/**
+ * What to check for each connectivity problem
+ */
+export const CONNECTIVITY_PROBLEM_MESSAGES: Record<
+  ConnectivityProblem,
+  string
+> = {
+  offline: "The browser is offline. Check the network connection.",
+  credentials:
+    "The backend answers, but not to requests that send cookies. It must reply with Access-Control-Allow-Credentials: true and name this origin in Access-Control-Allow-Origin instead of *.",
+  cors: "The backend is reachable, but the browser blocked its response. Add this origin to the backend's allowed CORS origins.",
+  unreachable:
+    "Nothing answered at the authentication base URL. Check that the backend is running and the URL is correct.",
+};
+
+const REDACTED = "[redacted]";
+
+// Configuration keys holding a secret, their values are never reported
+const SECRET_KEY_PATTERN = /secret|token|password|credential|api_?key/i;
+
+/**
+ * Remove the user info and query values from a URL, they may hold credentials
+ */
+export function redactUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+
+  if (url.username) url.username = REDACTED;
+  if (url.password) url.password = REDACTED;
+  url.searchParams.forEach((_, key) => url.searchParams.set(key, REDACTED));
+
+  return url.toString();
+}
+
+/**
+ * # Redact Configuration
+ *
+ * @param values - The configuration settings
+ * @returns Each setting as text, with secret values and URL credentials removed
+ */
+export function redactConfiguration(
+  values: ConfigurationValues
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => {
+      if (SECRET_KEY_PATTERN.test(key)) return [key, REDACTED];
+      if (typeof value === "string") return [key, redactUrl(value)];
+      return [key, JSON.stringify(value)];
+    })
+  );
+}
+
+/**
+ * Ping through the transport, the ping is the only anonymous method on every
+ * backend
+ */
+async function pingTransport(
+  transport: RpcTransport,
+  signal?: AbortSignal
+): Promise<TransportPing> {
+  const startedAt = performance.now();
+  const latency = () => Math.round(performance.now() - startedAt);
+
+  try {
+    const { response } = await new UtilitiesServiceClient(transport).ping(
+      Empty.create({}),
+      { abort: signal }
+    );
+
+    return { ok: true, latencyMs: latency(), message: response.message };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: latency(),
+      error: {
+        kind: errorKind(error),
+        code: error instanceof RpcError ? error.code : undefined,
+        message: errorMessage(error),
+      },
+    };
+  }
+}
+
+/**
+ * # Detect Connectivity Problem
+ *
+ * Probes the backend directly, without the retries and circuit breaker of the
+ * application's transport.
+ *
+ * @param baseUrl - The authentication base URL
+ * @param signal - Cancels the probes when aborted
+ * @returns The problem, or undefined when the backend answers
+ */
+export async function detectConnectivityProblem(
+  baseUrl: string,
+  signal?: AbortSignal
+): Promise<ConnectivityProblem | undefined> {
+  if (!navigator.onLine) return "offline";
+
+  const anonymousTransport = new GrpcWebFetchTransport({
+    baseUrl,
+    interceptors: [deadlineInterceptor()],
+    fetchInit: { credentials: "omit" },
+  });
+
+  const anonymousPing = await pingTransport(anonymousTransport, signal);
+
+  if (anonymousPing.ok) return "credentials";
+  if (anonymousPing.error?.kind !== "network") return undefined;
+
+  try {
+    // An opaque response still proves something answered at the URL
+    await fetch(baseUrl, { mode: "no-cors", cache: "no-store", signal });
+    return "cors";
+  } catch {
+    return "unreachable";
+  }
+}
+
+/**
+ * # Run Diagnostics
+ *
+ * Pings the backend, and probes for the cause when the ping gets no response.
+ * The ping skips the retries and circuit breaker of the application's
+ * transport, an open circuit would fail it without reaching the backend.
+ *
+ * @param signal - Cancels the ping when aborted
+ * @returns Promise resolving to the report
+ */
+export async function runDiagnostics(
+  signal?: AbortSignal
+): Promise<DiagnosticsReport> {
+  const ping = await pingTransport(await Client.directTransport(), signal);
+
+  return {
+    createdAt: new Date(),
+    ping,
+    problem:
+      ping.error?.kind === "network"
+        ? await detectConnectivityProblem(
+            configuration.AUTHENTICATION_BASE_URL,
+            signal
+          )
+        : undefined,
+    circuitState: backendCircuitBreaker.getState(),
+    configuration: {
+      APPLICATION_MODE: configuration.APPLICATION_MODE,
+      ...redactConfiguration(configuration.values),
+    },
+    build: {
+      mode: import.meta.env.MODE,
+      basePath: import.meta.env.BASE_URL,
+      origin: window.location.origin,
+      userAgent: navigator.userAgent,
+    },
+  };
+}
+
+/**
+ * # Format Diagnostics Report
+ *
+ * @param report - The diagnostics report
+ * @returns The report as plain text, for pasting into a ticket
+ */
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const lines = [
+    "# Diagnostics report",
+    `Created: ${report.createdAt.toISOString()}`,
+    "",
+    "## Connectivity",
+    report.ping.ok
+      ? `Ping: ok in ${report.ping.latencyMs} ms (${report.ping.message})`
+      : `Ping: failed in ${report.ping.latencyMs} ms, ${report.ping.error?.code ?? report.ping.error?.kind}: ${report.ping.error?.message}`,
+    `Problem: ${report.problem ? CONNECTIVITY_PROBLEM_MESSAGES[report.problem] : "none detected"}`,
+    `Circuit breaker: ${report.circuitState}`,
+    "",
+    "## Configuration",
+    ...Object.entries(report.configuration).map(
+      ([key, value]) => `${key}: ${value}`
+    ),
+    "",
+    "## Build",
+    `Mode: ${report.build.mode}`,
+    `Base path: ${report.build.basePath}`,
+    `Origin: ${report.build.origin}`,
+    `User agent: ${report.build.userAgent}`,
+  ];
+
+  return lines.join("\n");
+}
@@ -0,0 +1,29 @@
+import { RpcError } from "@protobuf-ts/runtime-rpc";
+import { describe, expect, it } from "vitest";
+import { errorMessage, ServiceError } from "./errors";
+
+describe("errorMessage", () => {
+  it("shows the server's reason for a rejected request", () => {
+    const error = new ServiceError(
+      "Failed to create user",
+      "create",
+      new RpcError("password%20must%20be%2012%20characters", "INVALID_ARGUMENT")
+    );
+
+    expect(errorMessage(error)).toBe(
+      "Failed to create user: password must be 12 characters. Some of the details are not valid. Please check them and try again."
+    );
+  });
+
+  it("leaves out the status message of an unreachable backend", () => {
+    const error = new ServiceError(
+      "Failed to create user",
+      "create",
+      new RpcError("upstream connect error", "UNAVAILABLE")
+    );
+
+    expect(errorMessage(error)).toBe(
+      "Failed to create user. The service is unavailable. Please try again shortly."
+    );
+  });
+});
@@ -0,0 +1,246 @@
+//-- ./src/lib/errors.ts
+
+/**
+ * # Errors
+ *
+ * Maps the status of a failed gRPC call to an error kind, so services throw
+ * errors the forms can display without knowing about gRPC status codes.
+ *
+ * The messages shown to users are kept in one catalog keyed by error kind, which
+ * can be replaced with `setErrorMessages` to translate them.
+ */
+
+import { GrpcStatusCode } from "@protobuf-ts/grpcweb-transport";
+import { RpcError } from "@protobuf-ts/runtime-rpc";
+
+/**
+ * # Error Kind
+ *
+ * What went wrong, independent of the service that failed.
+ */
+export type ErrorKind =
+  | "unauthenticated"
+  | "permissionDenied"
+  | "notFound"
+  | "alreadyExists"
+  | "invalidArgument"
+  | "failedPrecondition"
+  | "rateLimited"
+  | "unavailable"
+  | "network"
+  | "deadlineExceeded"
+  | "cancelled"
+  | "unimplemented"
+  | "unknown";
+
+/**
+ * # Error Messages
+ *
+ * The message shown for each error kind. An entry keyed `operation:kind` is
+ * used instead of the kind's message for errors from that operation.
+ */
+export type ErrorMessages = Record<ErrorKind, string> &
+  Partial<Record<`${string}:${ErrorKind}`, string>>;
+
+const DEFAULT_ERROR_MESSAGES: ErrorMessages = {
+  unauthenticated: "Your session has expired. Please sign in again.",
+  permissionDenied: "You do not have permission to do this.",
+  notFound: "The requested item could not be found.",
+  alreadyExists: "An item with these details already exists.",
+  invalidArgument:
+    "Some of the details are not valid. Please check them and try again.",
+  failedPrecondition: "This cannot be done right now.",
+  rateLimited: "Too many requests. Please wait a moment and try again.",
+  unavailable: "The service is unavailable. Please try again shortly.",
+  network:
+    "The service is not reachable. Check your connection and try again.",
+  deadlineExceeded: "The service took too long to respond. Please try again.",
+  cancelled: "The request was cancelled.",
+  unimplemented: "This action is not supported by the service.",
+  unknown: "Something went wrong. Please try again.",
+  "login:unauthenticated": "Incorrect email or password.",
+  "login:permissionDenied": "This account is not allowed to sign in.",
+  "register:alreadyExists": "An account with this email already exists.",
+  "create:alreadyExists": "A user with this email already exists.",
+};
+
+let errorMessages: ErrorMessages = DEFAULT_ERROR_MESSAGES;
+
+/**
+ * # Set Error Messages
+ *
+ * Replace messages in the catalog, for example with translations.
+ *
+ * @param messages - The messages to use instead of the defaults
+ */
+export function setErrorMessages(messages: Partial<ErrorMessages>) {
+  errorMessages = { ...DEFAULT_ERROR_MESSAGES, ...messages };
+}
+
+const ERROR_KINDS_BY_CODE: Partial<Record<string, ErrorKind>> = {
+  [GrpcStatusCode[GrpcStatusCode.UNAUTHENTICATED]]: "unauthenticated",
+  [GrpcStatusCode[GrpcStatusCode.PERMISSION_DENIED]]: "permissionDenied",
+  [GrpcStatusCode[GrpcStatusCode.NOT_FOUND]]: "notFound",
+  [GrpcStatusCode[GrpcStatusCode.ALREADY_EXISTS]]: "alreadyExists",
+  [GrpcStatusCode[GrpcStatusCode.INVALID_ARGUMENT]]: "invalidArgument",
+  [GrpcStatusCode[GrpcStatusCode.OUT_OF_RANGE]]: "invalidArgument",
+  [GrpcStatusCode[GrpcStatusCode.FAILED_PRECONDITION]]: "failedPrecondition",
+  [GrpcStatusCode[GrpcStatusCode.RESOURCE_EXHAUSTED]]: "rateLimited",
+  [GrpcStatusCode[GrpcStatusCode.UNAVAILABLE]]: "unavailable",
+  [GrpcStatusCode[GrpcStatusCode.DEADLINE_EXCEEDED]]: "deadlineExceeded",
+  [GrpcStatusCode[GrpcStatusCode.CANCELLED]]: "cancelled",
+  [GrpcStatusCode[GrpcStatusCode.UNIMPLEMENTED]]: "unimplemented",
+};
+
+// How fetch reports a request that never reached the server, in Chrome,
+// Firefox and Safari
+const NETWORK_FAILURE_MESSAGES = [
+  "Failed to fetch",
+  "NetworkError when attempting to fetch resource.",
+  "Load failed",
+];
+
+// Kinds where sending the same request again later may succeed
+const TRANSIENT_ERROR_KINDS: readonly ErrorKind[] = [
+  "unavailable",
+  "network",
+  "deadlineExceeded",
+];
+
+// Kinds where the server's status message says what to change in the request,
+// like the field that failed validation
+const DETAILED_ERROR_KINDS: readonly ErrorKind[] = [
+  "invalidArgument",
+  "alreadyExists",
+  "failedPrecondition",
+];
+
+/**
+ * The grpc-message header is percent encoded, and is passed on as is
+ */
+function decodeStatusMessage(message: string): string {
+  try {
+    return decodeURIComponent(message);
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * # Service Error
+ *
+ * The base class of the errors thrown by the services. The error kind and the
+ * server's status message are taken from the `originalError`.
+ */
+export class ServiceError<TOperation extends string = string> extends Error {
+  /**
+   * What went wrong, used to pick the message shown to the user
+   */
+  public readonly kind: ErrorKind;
+
+  /**
+   * The gRPC status code, when the server answered
+   */
+  public readonly code?: string;
+
+  /**
+   * The decoded status message from the server, for logging and for the
+   * message of errors the user can correct
+   */
+  public readonly detail?: string;
+
+  constructor(
+    message: string,
+    public operation: TOperation,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = "ServiceError";
+
+    if (originalError instanceof ServiceError) {
+      this.kind = originalError.kind;
+      this.code = originalError.code;
+      this.detail = originalError.detail;
+    } else if (originalError instanceof RpcError) {
+      this.kind = errorKind(originalError);
+      this.code = originalError.code;
+      this.detail = decodeStatusMessage(originalError.message);
+    } else {
+      this.kind = errorKind(originalError);
+    }
+  }
+
+  /**
+   * # User Message
+   *
+   * The message from the catalog for this error's operation and kind.
+   */
+  get userMessage(): string {
+    return (
+      errorMessages[`${this.operation}:${this.kind}`] ??
+      errorMessages[this.kind]
+    );
+  }
+}
+
+/**
+ * # Error Kind
+ *
+ * @param error - Any thrown value
+ * @returns The kind of the error, `unknown` when it can not be told
+ */
+export function errorKind(error: unknown): ErrorKind {
+  if (error instanceof ServiceError) return error.kind;
+
+  if (!(error instanceof Error)) return "unknown";
+
+  // A network failure in fetch surfaces as an internal error
+  if (NETWORK_FAILURE_MESSAGES.includes(error.message)) return "network";
+
+  if (error instanceof RpcError) {
+    return ERROR_KINDS_BY_CODE[error.code] ?? "unknown";
+  }
+
+  return "unknown";
+}
+
+/**
+ * # Is Transient Error
+ *
+ * The server could not be reached or did not answer in time, so the request
+ * says nothing about the data and may be sent again.
+ */
+export function isTransientError(error: unknown): boolean {
+  return TRANSIENT_ERROR_KINDS.includes(errorKind(error));
+}
+
+/**
+ * # Error Message
+ *
+ * Build the message shown to the user for any thrown value. Service errors name
+ * the failed operation followed by the catalog message, other errors only show
+ * the catalog message for their kind. When the request itself was rejected, the
+ * server's reason follows the operation, so the user knows what to correct.
+ */
+export function errorMessage(error: unknown): string {
+  if (error instanceof ServiceError) {
+    if (error.detail && DETAILED_ERROR_KINDS.includes(error.kind)) {
+      return `${error.message}: ${error.detail}. ${error.userMessage}`;
+    }
+
+    return `${error.message}. ${error.userMessage}`;
+  }
+
+  const kind = errorKind(error);
+
+  // Errors raised by the application itself already describe the problem
+  if (
+    kind === "unknown" &&
+    error instanceof Error &&
+    !(error instanceof RpcError)
+  ) {
+    return error.message;
+  }
+
+  return errorMessages[kind];
+}
@@ -0,0 +1,733 @@
+//-- ./src/lib/fakeBackend.ts
+
+/**
+ * # Fake Backend
+ *
+ * An in-memory stand-in for the authentication backend, so the application can
+ * run without it. Answered through `FakeTransport`, see
+ * `src/lib/fakeTransport.ts`, and selected with `VITE_FAKE_BACKEND=true`.
+ *
+ * The fake keeps the rules the application relies on:
+ *
+ * - Login issues an access token and sets the refresh cookie, which the fake
+ *   keeps in place of the browser's http-only cookie.
+ * - Refresh rotates the refresh token of the cookie's session. A revoked,
+ *   expired or missing session fails with `UNAUTHENTICATED`.
+ * - Logout ends the cookie's session and clears the cookie.
+ * - Other calls need a valid bearer token, and admin only calls fail with
+ *   `PERMISSION_DENIED` for other roles.
+ *
+ * Access tokens are JWTs with a fake signature, so the application can read
+ * their claims. The state is kept in local storage, so sessions survive a page
+ * reload and are shared between tabs like the refresh cookie.
+ *
+ * Seeded accounts, each with the password `password1234`:
+ *
+ * - `admin@example.com` - admin
+ * - `user@example.com` - user
+ * - `inactive@example.com` - user, deactivated
+ */
+
+import { decodeJwtClaims, type JwtClaims } from "@/lib/jwt";
+import type {
+  LoginRequest,
+  LoginResponse,
+  LogoutResponse,
+  RefreshResponse,
+  RegisterRequest,
+  RegisterResponse,
+  ResetPasswordResponse,
+  UpdatePasswordRequest,
+  UpdatePasswordResponse,
+} from "@/lib/grpc/authentication";
+import type {
+  SessionsDeleteRequest,
+  SessionsDeleteResponse,
+  SessionsDeleteUserRequest,
+  SessionsIndexRequest,
+  SessionsIndexResponse,
+  SessionsReadRequest,
+  SessionsResponse,
+  SessionsRevokeRequest,
+  SessionsRevokeResponse,
+  SessionsRevokeUserRequest,
+} from "@/lib/grpc/sessions";
+import type {
+  CreateUserRequest,
+  DeleteUserRequest,
+  DeleteUserResponse,
+  ReadUserRequest,
+  UpdateUserRequest,
+  UserIndexRequest,
+  UserIndexResponse,
+  UserResponse,
+} from "@/lib/grpc/users";
+import type { PingResponse } from "@/lib/grpc/utilities";
+import { methodKey } from "@/lib/methodInfo";
+import { GrpcStatusCode } from "@protobuf-ts/grpcweb-transport";
+import {
+  RpcError,
+  type MethodInfo,
+  type RpcMetadata,
+} from "@protobuf-ts/runtime-rpc";
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const SEED_PASSWORD = "password1234";
+
+// 127.0.0.1 as the signed 32 bit integer the backend stores
+const LOCALHOST_IP = 0x7f000001;
+
+const FAKE_SIGNATURE = "fake-signature";
+
+/**
+ * A user with the password the fake checks at login
+ */
+type FakeUser = UserResponse & { password: string };
+
+/**
+ * # Fake Backend State
+ *
+ * Everything the fake keeps between calls, stored as JSON.
+ */
+export type FakeBackendState = {
+  users: FakeUser[];
+  sessions: SessionsResponse[];
+
+  /**
+   * The refresh token the browser would send as an http-only cookie
+   */
+  refreshCookie?: string;
+};
+
+/**
+ * Claims of the fake access tokens
+ */
+type FakeClaims = JwtClaims & {
+  sub: string;
+  exp: number;
+  role: string;
+};
+
+function seedState(): FakeBackendState {
+  const createdOn = new Date().toISOString();
+
+  return {
+    users: [
+      {
+        id: "0191f2a0-0000-7000-8000-000000000001",
+        email: "admin@example.com",
+        name: "Admin User",
+        role: "admin",
+        isActive: true,
+        isVerified: true,
+        createdOn,
+        password: SEED_PASSWORD,
+      },
+      {
+        id: "0191f2a0-0000-7000-8000-000000000002",
+        email: "user@example.com",
+        name: "Regular User",
+        role: "user",
+        isActive: true,
+        isVerified: true,
+        createdOn,
+        password: SEED_PASSWORD,
+      },
+      {
+        id: "0191f2a0-0000-7000-8000-000000000003",
+        email: "inactive@example.com",
+        name: "Inactive User",
+        role: "user",
+        isActive: false,
+        isVerified: true,
+        createdOn,
+        password: SEED_PASSWORD,
+      },
+    ],
+    sessions: [
+      {
+        id: "0191f2a0-0000-7000-8000-000000000101",
+        userId: "0191f2a0-0000-7000-8000-000000000002",
+        loginOn: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        loginIp: LOCALHOST_IP,
+        expiresOn: new Date(
+          Date.now() + SESSION_TTL_SECONDS * 1000
+        ).toISOString(),
+        refreshToken: crypto.randomUUID(),
+        isActive: true,
+      },
+    ],
+  };
+}
+
+function rpcError(code: GrpcStatusCode, message: string): RpcError {
+  return new RpcError(message, GrpcStatusCode[code]);
+}
+
+function base64UrlEncode(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+    ""
+  );
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function toUserResponse(user: FakeUser): UserResponse {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    isActive: user.isActive,
+    isVerified: user.isVerified,
+    createdOn: user.createdOn,
+  };
+}
+
+/**
+ * # Fake Backend
+ *
+ * Answers the unary methods of the four services, see `handle`.
+ */
+export class FakeBackend {
+  private state: FakeBackendState;
+
+  /**
+   * @param storage - Where the state is kept, in memory only when undefined
+   * @param storageKey - The storage key of the state
+   */
+  constructor(
+    private storage: Storage | undefined = globalThis.localStorage,
+    private storageKey = "fake_backend_state"
+  ) {
+    this.state = this.load() ?? seedState();
+  }
+
+  /**
+   * # Reset
+   *
+   * Replace the state with the seeded users and sessions.
+   */
+  public reset() {
+    this.state = seedState();
+    this.save();
+  }
+
+  /**
+   * # Handle
+   *
+   * Answer a call like the backend would.
+   *
+   * @param method - The called method
+   * @param input - The request message
+   * @param meta - The request metadata, with the bearer token
+   * @returns The response message
+   * @throws {RpcError} With the status code the backend would answer
+   */
+  public handle(method: MethodInfo, input: object, meta: RpcMetadata): object {
+    // Another tab may have changed the state
+    this.state = this.load() ?? this.state;
+
+    try {
+      return this.dispatch(methodKey(method), input, meta);
+    } finally {
+      // A failed refresh still clears the cookie
+      this.save();
+    }
+  }
+
+  private dispatch(key: string, input: object, meta: RpcMetadata): object {
+    switch (key) {
+      case "authentication.UtilitiesService/Ping":
+        return this.ping();
+
+      case "authentication.AuthenticationService/Login":
+        return this.login(input as LoginRequest);
+      case "authentication.AuthenticationService/Refresh":
+        return this.refresh();
+      case "authentication.AuthenticationService/Logout":
+        return this.logout();
+      case "authentication.AuthenticationService/Register":
+        return this.register(input as RegisterRequest);
+      case "authentication.AuthenticationService/ResetPassword":
+        return this.resetPassword();
+      case "authentication.AuthenticationService/UpdatePassword":
+        return this.updatePassword(
+          input as UpdatePasswordRequest,
+          this.authenticate(meta)
+        );
+    }
+
+    const caller = this.authenticate(meta);
+
+    switch (key) {
+      case "authentication.UsersService/Create":
+        return this.createUser(input as CreateUserRequest, caller);
+      case "authentication.UsersService/Read":
+        return this.readUser(input as ReadUserRequest, caller);
+      case "authentication.UsersService/Index":
+        return this.indexUsers(input as UserIndexRequest, caller);
+      case "authentication.UsersService/Update":
+        return this.updateUser(input as UpdateUserRequest, caller);
+      case "authentication.UsersService/Delete":
+        return this.deleteUser(input as DeleteUserRequest, caller);
+
+      case "authentication.SessionsService/Read":
+        return this.readSession(input as SessionsReadRequest, caller);
+      case "authentication.SessionsService/Index":
+        return this.indexSessions(input as SessionsIndexRequest, caller);
+      case "authentication.SessionsService/Revoke":
+        return this.revokeSession(input as SessionsRevokeRequest, caller);
+      case "authentication.SessionsService/RevokeUser":
+        return this.revokeUserSessions(
+          input as SessionsRevokeUserRequest,
+          caller
+        );
+      case "authentication.SessionsService/RevokeAll":
+        return this.revokeAllSessions(caller);
+      case "authentication.SessionsService/Delete":
+        return this.deleteSession(input as SessionsDeleteRequest, caller);
+      case "authentication.SessionsService/DeleteUser":
+        return this.deleteUserSessions(
+          input as SessionsDeleteUserRequest,
+          caller
+        );
+      case "authentication.SessionsService/DeleteAll":
+        return this.deleteAllSessions(caller);
+    }
+
+    throw rpcError(GrpcStatusCode.UNIMPLEMENTED, `${key} is not implemented`);
+  }
+
+  // -- Utilities
+
+  private ping(): PingResponse {
+    return { message: "Pong from the fake backend" };
+  }
+
+  // -- Authentication
+
+  private login({ email, password }: LoginRequest): LoginResponse {
+    const user = this.findUserByEmail(email);
+
+    if (!user || user.password !== password) {
+      throw rpcError(
+        GrpcStatusCode.UNAUTHENTICATED,
+        "Invalid email or password"
+      );
+    }
+
+    if (!user.isActive) {
+      throw rpcError(GrpcStatusCode.PERMISSION_DENIED, "User is not active");
+    }
+
+    const now = Date.now();
+    const session: SessionsResponse = {
+      id: crypto.randomUUID(),
+      userId: user.id,
+      loginOn: new Date(now).toISOString(),
+      loginIp: LOCALHOST_IP,
+      expiresOn: new Date(now + SESSION_TTL_SECONDS * 1000).toISOString(),
+      refreshToken: crypto.randomUUID(),
+      isActive: true,
+    };
+
+    this.state.sessions.push(session);
+    this.state.refreshCookie = session.refreshToken;
+
+    return {
+      accessToken: this.issueAccessToken(user),
+      user: toUserResponse(user),
+    };
+  }
+
+  private refresh(): RefreshResponse {
+    const session = this.cookieSession();
+    const user = session && this.findUser(session.userId);
+
+    if (!session || !user?.isActive) {
+      this.state.refreshCookie = undefined;
+      throw rpcError(
+        GrpcStatusCode.UNAUTHENTICATED,
+        "Refresh token is missing, revoked or expired"
+      );
+    }
+
+    // The refresh token is rotated on every use
+    session.refreshToken = crypto.randomUUID();
+    this.state.refreshCookie = session.refreshToken;
+
+    return {
+      accessToken: this.issueAccessToken(user),
+      user: toUserResponse(user),
+    };
+  }
+
+  private logout(): LogoutResponse {
+    const session = this.cookieSession();
+
+    if (session) {
+      session.isActive = false;
+      session.logoutOn = new Date().toISOString();
+      session.logoutIp = LOCALHOST_IP;
+    }
+
+    this.state.refreshCookie = undefined;
+
+    return { success: true, message: "Logged out" };
+  }
+
+  private register({ email, password }: RegisterRequest): RegisterResponse {
+    if (this.findUserByEmail(email)) {
+      throw rpcError(GrpcStatusCode.ALREADY_EXISTS, "Email already registered");
+    }
+
+    this.state.users.push({
+      id: crypto.randomUUID(),
+      email,
+      name: email.split("@")[0] ?? email,
+      role: "user",
+      isActive: true,
+      isVerified: false,
+      createdOn: new Date().toISOString(),
+      password,
+    });
+
+    return { success: true, message: "Registered" };
+  }
+
+  private resetPassword(): ResetPasswordResponse {
+    // The answer does not tell whether the email is registered
+    return {
+      success: true,
+      message: "If the email is registered, a reset link has been sent",
+    };
+  }
+
+  private updatePassword(
+    { email, passwordOriginal, passwordNew }: UpdatePasswordRequest,
+    caller: FakeUser
+  ): UpdatePasswordResponse {
+    const user = this.findUserByEmail(email);
+
+    if (!user || (user.id !== caller.id && caller.role !== "admin")) {
+      throw rpcError(
+        GrpcStatusCode.PERMISSION_DENIED,
+        "Can only change your own password"
+      );
+    }
+
+    if (user.password !== passwordOriginal) {
+      throw rpcError(
+        GrpcStatusCode.INVALID_ARGUMENT,
+        "Current password is incorrect"
+      );
+    }
+
+    user.password = passwordNew;
+
+    return { success: true, message: "Password updated" };
+  }
+
+  // -- Users
+
+  private createUser(
+    { password, ...input }: CreateUserRequest,
+    caller: FakeUser
+  ): UserResponse {
+    this.requireAdmin(caller);
+
+    if (this.findUserByEmail(input.email)) {
+      throw rpcError(GrpcStatusCode.ALREADY_EXISTS, "Email already exists");
+    }
+
+    const user: FakeUser = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdOn: new Date().toISOString(),
+      password,
+    };
+
+    this.state.users.push(user);
+
+    return toUserResponse(user);
+  }
+
+  private readUser({ id }: ReadUserRequest, caller: FakeUser): UserResponse {
+    if (id !== caller.id) this.requireAdmin(caller);
+
+    return toUserResponse(this.getUser(id));
+  }
+
+  private indexUsers(
+    { limit, offset }: UserIndexRequest,
+    caller: FakeUser
+  ): UserIndexResponse {
+    this.requireAdmin(caller);
+
+    return {
+      users: this.page(this.state.users, limit, offset).map(toUserResponse),
+    };
+  }
+
+  private updateUser(
+    { id, ...input }: UpdateUserRequest,
+    caller: FakeUser
+  ): UserResponse {
+    this.requireAdmin(caller);
+
+    const user = this.getUser(id);
+    const existing = this.findUserByEmail(input.email);
+
+    if (existing && existing.id !== id) {
+      throw rpcError(GrpcStatusCode.ALREADY_EXISTS, "Email already exists");
+    }
+
+    Object.assign(user, input);
+
+    return toUserResponse(user);
+  }
+
+  private deleteUser(
+    { id }: DeleteUserRequest,
+    caller: FakeUser
+  ): DeleteUserResponse {
+    this.requireAdmin(caller);
+
+    const count = this.state.users.length;
+    this.state.users = this.state.users.filter((user) => user.id !== id);
+    this.state.sessions = this.state.sessions.filter(
+      (session) => session.userId !== id
+    );
+
+    return { rowsAffected: BigInt(count - this.state.users.length) };
+  }
+
+  // -- Sessions
+
+  private readSession(
+    { id }: SessionsReadRequest,
+    caller: FakeUser
+  ): SessionsResponse {
+    return this.getOwnSession(id, caller);
+  }
+
+  private indexSessions(
+    { limit, offset }: SessionsIndexRequest,
+    caller: FakeUser
+  ): SessionsIndexResponse {
+    // Users only see their own sessions, admins see every session
+    const sessions =
+      caller.role === "admin"
+        ? this.state.sessions
+        : this.state.sessions.filter((session) => session.userId === caller.id);
+
+    return { sessions: this.page(sessions, limit, offset) };
+  }
+
+  private revokeSession(
+    { id }: SessionsRevokeRequest,
+    caller: FakeUser
+  ): SessionsRevokeResponse {
+    const session = this.getOwnSession(id, caller);
+
+    return { rowsAffected: this.revoke([session]) };
+  }
+
+  private revokeUserSessions(
+    { userId }: SessionsRevokeUserRequest,
+    caller: FakeUser
+  ): SessionsRevokeResponse {
+    if (userId !== caller.id) this.requireAdmin(caller);
+
+    return {
+      rowsAffected: this.revoke(
+        this.state.sessions.filter((session) => session.userId === userId)
+      ),
+    };
+  }
+
+  private revokeAllSessions(caller: FakeUser): SessionsRevokeResponse {
+    this.requireAdmin(caller);
+
+    return { rowsAffected: this.revoke(this.state.sessions) };
+  }
+
+  private deleteSession(
+    { id }: SessionsDeleteRequest,
+    caller: FakeUser
+  ): SessionsDeleteResponse {
+    this.requireAdmin(caller);
+
+    return this.deleteSessions((session) => session.id === id);
+  }
+
+  private deleteUserSessions(
+    { userId }: SessionsDeleteUserRequest,
+    caller: FakeUser
+  ): SessionsDeleteResponse {
+    this.requireAdmin(caller);
+
+    return this.deleteSessions((session) => session.userId === userId);
+  }
+
+  private deleteAllSessions(caller: FakeUser): SessionsDeleteResponse {
+    this.requireAdmin(caller);
+
+    return this.deleteSessions(() => true);
+  }
+
+  // -- Helpers
+
+  private issueAccessToken(user: FakeUser): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const claims: FakeClaims = {
+      sub: user.id,
+      iat,
+      exp: iat + ACCESS_TOKEN_TTL_SECONDS,
+      role: user.role,
+    };
+
+    return [
+      base64UrlEncode(JSON.stringify({ alg: "none", typ: "JWT" })),
+      base64UrlEncode(JSON.stringify(claims)),
+      FAKE_SIGNATURE,
+    ].join(".");
+  }
+
+  /**
+   * The active user the bearer token was issued to
+   */
+  private authenticate(meta: RpcMetadata): FakeUser {
+    const authorization = meta.authorization;
+    const token =
+      typeof authorization === "string"
+        ? authorization.replace(/^Bearer /, "")
+        : undefined;
+
+    const claims = token?.endsWith(`.${FAKE_SIGNATURE}`)
+      ? decodeJwtClaims(token)
+      : undefined;
+    const user = claims?.sub ? this.findUser(claims.sub) : undefined;
+
+    if (
+      !claims?.exp ||
+      claims.exp * 1000 <= Date.now() ||
+      !user?.isActive
+    ) {
+      throw rpcError(
+        GrpcStatusCode.UNAUTHENTICATED,
+        "Access token is missing, invalid or expired"
+      );
+    }
+
+    return user;
+  }
+
+  private requireAdmin(caller: FakeUser) {
+    if (caller.role !== "admin") {
+      throw rpcError(GrpcStatusCode.PERMISSION_DENIED, "Requires the admin role");
+    }
+  }
+
+  /**
+   * The active, unexpired session of the refresh cookie
+   */
+  private cookieSession(): SessionsResponse | undefined {
+    const refreshToken = this.state.refreshCookie;
+
+    return this.state.sessions.find(
+      (session) =>
+        refreshToken !== undefined &&
+        session.refreshToken === refreshToken &&
+        session.isActive &&
+        new Date(session.expiresOn).getTime() > Date.now()
+    );
+  }
+
+  private findUser(id: string): FakeUser | undefined {
+    return this.state.users.find((user) => user.id === id);
+  }
+
+  private findUserByEmail(email: string): FakeUser | undefined {
+    return this.state.users.find(
+      (user) => user.email.toLowerCase() === email.toLowerCase()
+    );
+  }
+
+  private getUser(id: string): FakeUser {
+    const user = this.findUser(id);
+
+    if (!user) {
+      throw rpcError(GrpcStatusCode.NOT_FOUND, `User ${id} not found`);
+    }
+
+    return user;
+  }
+
+  private getOwnSession(id: string, caller: FakeUser): SessionsResponse {
+    const session = this.state.sessions.find((session) => session.id === id);
+
+    if (!session) {
+      throw rpcError(GrpcStatusCode.NOT_FOUND, `Session ${id} not found`);
+    }
+
+    if (session.userId !== caller.id) this.requireAdmin(caller);
+
+    return session;
+  }
+
+  private revoke(sessions: SessionsResponse[]): bigint {
+    const active = sessions.filter((session) => session.isActive);
+    const logoutOn = new Date().toISOString();
+
+    active.forEach((session) => {
+      session.isActive = false;
+      session.logoutOn = logoutOn;
+    });
+
+    return BigInt(active.length);
+  }
+
+  private deleteSessions(
+    predicate: (session: SessionsResponse) => boolean
+  ): SessionsDeleteResponse {
+    const count = this.state.sessions.length;
+    this.state.sessions = this.state.sessions.filter(
+      (session) => !predicate(session)
+    );
+
+    return { rowsAffected: BigInt(count - this.state.sessions.length) };
+  }
+
+  /**
+   * A limit of 0 returns every item from the offset
+   */
+  private page<T>(items: T[], limit: bigint, offset: bigint): T[] {
+    const start = Number(offset);
+
+    return limit > 0n
+      ? items.slice(start, start + Number(limit))
+      : items.slice(start);
+  }
+
+  private load(): FakeBackendState | undefined {
+    const json = this.storage?.getItem(this.storageKey);
+
+    if (!json) return undefined;
+
+    try {
+      return JSON.parse(json) as FakeBackendState;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private save() {
+    this.storage?.setItem(this.storageKey, JSON.stringify(this.state));
+  }
+}
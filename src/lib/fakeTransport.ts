@@ -0,0 +1,140 @@
+//-- ./src/lib/fakeTransport.ts
+
+/**
+ * # Fake Transport
+ *
+ * A protobuf-ts transport that answers calls from the in-memory fake backend
+ * instead of sending them over the network. The generated clients and the
+ * interceptors run on it unchanged, so the whole application works offline.
+ */
+
+import { FakeBackend } from "@/lib/fakeBackend";
+import { GrpcStatusCode } from "@protobuf-ts/grpcweb-transport";
+import {
+  mergeRpcOptions,
+  RpcError,
+  UnaryCall,
+  type ClientStreamingCall,
+  type DuplexStreamingCall,
+  type MethodInfo,
+  type RpcOptions,
+  type RpcTransport,
+  type ServerStreamingCall,
+} from "@protobuf-ts/runtime-rpc";
+
+export type FakeTransportOptions = Partial<RpcOptions> & {
+  /**
+   * Delay before every answer, so loading states can be seen
+   */
+  latencyMs?: number;
+
+  /**
+   * The backend answering the calls
+   */
+  backend?: FakeBackend;
+};
+
+/**
+ * Wait for the simulated latency, failing with `CANCELLED` when aborted
+ */
+function delay(ms: number, abort?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cancelled = () =>
+      new RpcError("Call cancelled", GrpcStatusCode[GrpcStatusCode.CANCELLED]);
+
+    if (abort?.aborted) {
+      reject(cancelled());
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      abort?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(cancelled());
+    }
+
+    abort?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * # Fake Transport
+ *
+ * Only unary calls are supported, the services have no streaming methods.
+ */
+export class FakeTransport implements RpcTransport {
+  private defaultOptions: Partial<RpcOptions>;
+
+  private latencyMs: number;
+
+  private backend: FakeBackend;
+
+  constructor({
+    latencyMs = 150,
+    backend = new FakeBackend(),
+    ...defaultOptions
+  }: FakeTransportOptions = {}) {
+    this.defaultOptions = defaultOptions;
+    this.latencyMs = latencyMs;
+    this.backend = backend;
+  }
+
+  mergeOptions(options?: Partial<RpcOptions>): RpcOptions {
+    return mergeRpcOptions(this.defaultOptions, options);
+  }
+
+  unary<I extends object, O extends object>(
+    method: MethodInfo<I, O>,
+    input: I,
+    options: RpcOptions
+  ): UnaryCall<I, O> {
+    const meta = options.meta ?? {};
+
+    const response = delay(this.latencyMs, options.abort).then(() =>
+      method.O.create(this.backend.handle(method, input, meta) as O)
+    );
+
+    const status = response.then(() => ({
+      code: GrpcStatusCode[GrpcStatusCode.OK],
+      detail: "",
+    }));
+
+    // Callers usually only await the response, the error surfaces there
+    const headers = response.then(() => ({}));
+    const trailers = response.then(() => ({}));
+    [headers, status, trailers].forEach((promise) =>
+      promise.catch(() => undefined)
+    );
+
+    return new UnaryCall(method, meta, input, headers, response, status, trailers);
+  }
+
+  serverStreaming<I extends object, O extends object>(
+    method: MethodInfo<I, O>
+  ): ServerStreamingCall<I, O> {
+    throw this.unimplemented(method);
+  }
+
+  clientStreaming<I extends object, O extends object>(
+    method: MethodInfo<I, O>
+  ): ClientStreamingCall<I, O> {
+    throw this.unimplemented(method);
+  }
+
+  duplex<I extends object, O extends object>(
+    method: MethodInfo<I, O>
+  ): DuplexStreamingCall<I, O> {
+    throw this.unimplemented(method);
+  }
+
+  private unimplemented(method: MethodInfo): RpcError {
+    return new RpcError(
+      `The fake transport does not stream, ${method.name} was not sent`,
+      GrpcStatusCode[GrpcStatusCode.UNIMPLEMENTED]
+    );
+  }
+}
@@ -0,0 +1,69 @@
+//-- ./src/lib/jwt.ts
+
+/**
+ * # JWT
+ *
+ * Read the claims of a JSON Web Token in the browser. The signature is not
+ * verified, that is the backend's job, so only use the claims for scheduling
+ * and display.
+ */
+
+/**
+ * The registered claims the frontend reads
+ */
+export type JwtClaims = {
+  exp?: number;
+  iat?: number;
+  sub?: string;
+};
+
+/**
+ * # Decode JWT Claims
+ *
+ * @param token - The encoded JWT
+ * @returns The payload claims, or `undefined` if the token is malformed
+ */
+export function decodeJwtClaims(token: string): JwtClaims | undefined {
+  const payload = token.split(".")[1];
+
+  if (!payload) return undefined;
+
+  try {
+    // The payload is base64url encoded without padding
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+    const json = new TextDecoder().decode(bytes);
+
+    const claims: unknown = JSON.parse(json);
+
+    return typeof claims === "object" && claims !== null
+      ? (claims as JwtClaims)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * # JWT Expiry
+ *
+ * @param token - The encoded JWT
+ * @returns The expiry date from the `exp` claim, or `undefined` if it has none
+ */
+export function jwtExpiry(token: string): Date | undefined {
+  const { exp } = decodeJwtClaims(token) ?? {};
+
+  return typeof exp === "number" ? new Date(exp * 1000) : undefined;
+}
+
+/**
+ * # JWT Issued At
+ *
+ * @param token - The encoded JWT
+ * @returns The issue date from the `iat` claim, or `undefined` if it has none
+ */
+export function jwtIssuedAt(token: string): Date | undefined {
+  const { iat } = decodeJwtClaims(token) ?? {};
+
+  return typeof iat === "number" ? new Date(iat * 1000) : undefined;
+}
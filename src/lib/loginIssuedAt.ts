@@ -0,0 +1,74 @@
+//-- ./src/lib/loginIssuedAt.ts
+
+/**
+ * # Login Issued At
+ *
+ * When the backend issued the access token of the last login in this browser.
+ * The backend answers a login with neither the session ID nor a session claim
+ * in the access token, but it creates the session in the same request, so the
+ * session that logged in at this time is the one in use.
+ *
+ * The time is kept in localStorage, so like the refresh cookie it is shared by
+ * every tab and survives a reload. It is read from the token's `iat` claim,
+ * which uses the backend's clock like the session's login time.
+ */
+
+import { jwtIssuedAt } from "@/lib/jwt";
+import Logger from "@/logger";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+const STORAGE_KEY = "login_issued_at";
+
+/**
+ * # Remember Login Issued At
+ *
+ * @param accessToken - The access token answering the login
+ */
+export function rememberLoginIssuedAt(accessToken: string) {
+  const issuedAt = jwtIssuedAt(accessToken);
+
+  try {
+    if (issuedAt) {
+      localStorage.setItem(STORAGE_KEY, String(issuedAt.getTime()));
+    } else {
+      log.warn(
+        "The access token has no iat claim, sessions can not be told apart"
+      );
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    log.warn("Unable to remember the login time:", error);
+  }
+}
+
+/**
+ * # Forget Login Issued At
+ *
+ * Called when the session ends, so a later session is not mistaken for it.
+ */
+export function forgetLoginIssuedAt() {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    log.warn("Unable to forget the login time:", error);
+  }
+}
+
+/**
+ * # Read Login Issued At
+ *
+ * @returns The issue time of the last login, or `undefined` if this browser did
+ * not record one
+ */
+export function readLoginIssuedAt(): Date | undefined {
+  try {
+    const value = Number(localStorage.getItem(STORAGE_KEY));
+
+    return value > 0 ? new Date(value) : undefined;
+  } catch (error) {
+    log.warn("Unable to read the login time:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,37 @@
+//-- ./src/lib/methodInfo.ts
+
+/**
+ * # Method Info
+ *
+ * Helpers for the `MethodInfo` of the generated service types, used by the
+ * interceptors to configure single methods.
+ */
+
+import type { MethodInfo, ServiceType } from "@protobuf-ts/runtime-rpc";
+
+/**
+ * # Find Method
+ *
+ * @param service - The generated service type
+ * @param name - The method name from the proto file
+ * @returns The method info used by the generated client
+ */
+export function findMethod(service: ServiceType, name: string): MethodInfo {
+  const method = service.methods.find((method) => method.name === name);
+
+  if (!method) {
+    throw new Error(`${service.typeName} has no method ${name}`);
+  }
+
+  return method;
+}
+
+/**
+ * # Method Key
+ *
+ * The gRPC path of the method without the leading slash, for example
+ * `authentication.UtilitiesService/Ping`.
+ */
+export function methodKey(method: MethodInfo): string {
+  return `${method.service.typeName}/${method.name}`;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { isRedirectHref, redirectSearchSchema } from "./redirect";
+
+describe("isRedirectHref", () => {
+  it.each(["/", "/account", "/users?page=2&perPage=20", "/sessions#active"])(
+    "allows %s",
+    (href) => {
+      expect(isRedirectHref(href)).toBe(true);
+    }
+  );
+
+  it.each([
+    "https://example.com/",
+    "//example.com/users",
+    "/\\example.com/users",
+    "/logout",
+    "users",
+    "",
+  ])("rejects %o", (href) => {
+    expect(isRedirectHref(href)).toBe(false);
+  });
+});
+
+describe("redirectSearchSchema", () => {
+  it("keeps the search params of the page", () => {
+    expect(
+      redirectSearchSchema.parse({ redirect: "/users?page=2&perPage=20" })
+    ).toEqual({ redirect: "/users?page=2&perPage=20" });
+  });
+
+  it.each([{ redirect: "https://example.com/" }, { redirect: 42 }, {}])(
+    "falls back to the home page for %o",
+    (search) => {
+      expect(redirectSearchSchema.parse(search)).toEqual({ redirect: "/" });
+    }
+  );
+});
@@ -0,0 +1,51 @@
+//-- ./src/lib/redirect.ts
+
+/**
+ * # Redirect
+ *
+ * Where the user is sent once signed in. The protected layout passes the page
+ * that was opened through /authenticating and /login in the `redirect` search
+ * param, with its search and hash, so the user lands back on it.
+ */
+
+import { z } from "zod";
+
+/**
+ * The pages a redirect may lead to
+ */
+export const REDIRECT_PATHS = ["/", "/account", "/users", "/sessions"] as const;
+
+// Resolves the redirect, an href that leaves this origin leaves the application
+const REDIRECT_BASE_URL = "http://application.invalid";
+
+/**
+ * # Is Redirect Href
+ *
+ * @param href - The path of the page with its search and hash, for example
+ * `/users?page=2`
+ * @returns Whether the href stays in the application and leads to one of the
+ * `REDIRECT_PATHS`
+ */
+export function isRedirectHref(href: string): boolean {
+  if (!href.startsWith("/")) return false;
+
+  try {
+    const url = new URL(href, REDIRECT_BASE_URL);
+
+    return (
+      url.origin === REDIRECT_BASE_URL &&
+      (REDIRECT_PATHS as readonly string[]).includes(url.pathname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * # Redirect Search Schema
+ *
+ * The `redirect` search param, any other value becomes `/`.
+ */
+export const redirectSearchSchema = z.object({
+  redirect: z.string().refine(isRedirectHref).catch("/"),
+});
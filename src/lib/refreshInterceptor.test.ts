@@ -0,0 +1,156 @@
+import { ReadUserRequest, UserResponse, UsersService } from "@/lib/grpc/users";
+import { findMethod } from "@/lib/methodInfo";
+import { mockMethods, recordedCallsTo } from "@/test/transport";
+import {
+  RpcError,
+  TestTransport,
+  type NextUnaryFn,
+  type RpcOptions,
+} from "@protobuf-ts/runtime-rpc";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import refreshInterceptor, {
+  refreshAccessToken,
+  subscribeToTokenRefresh,
+} from "./refreshInterceptor";
+
+const read = findMethod(UsersService, "Read");
+
+const userResponse = UserResponse.create({
+  id: "0191f2a0-0000-7000-8000-000000000002",
+  email: "user@example.com",
+  name: "Regular User",
+  role: "user",
+});
+
+const refreshed = {
+  response: { accessToken: "new-token", user: userResponse },
+};
+
+const expiredToken = new RpcError("Token expired", "UNAUTHENTICATED");
+
+/**
+ * Send a read through the interceptor, the backend answers each attempt with
+ * the next of the responses
+ */
+async function sendRead(responses: (object | RpcError)[]) {
+  const sentTokens: unknown[] = [];
+  const next: NextUnaryFn = (method, input, options) => {
+    sentTokens.push(options.meta?.authorization);
+    return new TestTransport({ response: responses.shift() }).unary(
+      method,
+      input,
+      options
+    );
+  };
+
+  const options: RpcOptions = { meta: { authorization: "Bearer old-token" } };
+  const call = refreshInterceptor().interceptUnary!(
+    next,
+    read,
+    ReadUserRequest.create({ id: userResponse.id }),
+    options
+  );
+
+  return { response: call.response, sentTokens };
+}
+
+describe("refreshAccessToken", () => {
+  const onRefreshed = vi.fn();
+  const onExpired = vi.fn();
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    unsubscribe = subscribeToTokenRefresh({ onRefreshed, onExpired });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    vi.clearAllMocks();
+  });
+
+  it("sends a single refresh for concurrent callers", async () => {
+    mockMethods({ Refresh: refreshed });
+
+    const tokens = await Promise.all([
+      refreshAccessToken(),
+      refreshAccessToken(),
+    ]);
+
+    expect(tokens).toEqual(["new-token", "new-token"]);
+    expect(recordedCallsTo("Refresh")).toHaveLength(1);
+    expect(onRefreshed).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends a new refresh once the last one settled", async () => {
+    mockMethods({ Refresh: refreshed });
+
+    await refreshAccessToken();
+    await refreshAccessToken();
+
+    expect(recordedCallsTo("Refresh")).toHaveLength(2);
+  });
+
+  it("expires the session when the refresh is rejected", async () => {
+    mockMethods({
+      Refresh: {
+        response: new RpcError("Refresh token expired", "UNAUTHENTICATED"),
+      },
+    });
+
+    await expect(refreshAccessToken()).rejects.toMatchObject({
+      kind: "unauthenticated",
+    });
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(onRefreshed).not.toHaveBeenCalled();
+  });
+
+  it("keeps the session when the backend is unreachable", async () => {
+    mockMethods({
+      Refresh: { response: new RpcError("Service unavailable", "UNAVAILABLE") },
+    });
+
+    await expect(refreshAccessToken()).rejects.toMatchObject({
+      kind: "unavailable",
+    });
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+});
+
+describe("refreshInterceptor", () => {
+  it("replays a call rejected for an expired token with the new token", async () => {
+    mockMethods({ Refresh: refreshed });
+
+    const { response, sentTokens } = await sendRead([
+      expiredToken,
+      userResponse,
+    ]);
+
+    await expect(response).resolves.toEqual(userResponse);
+    expect(sentTokens).toEqual(["Bearer old-token", "Bearer new-token"]);
+  });
+
+  it("returns the original error when the refresh fails", async () => {
+    mockMethods({
+      Refresh: {
+        response: new RpcError("Refresh token expired", "UNAUTHENTICATED"),
+      },
+    });
+
+    const { response, sentTokens } = await sendRead([
+      expiredToken,
+      userResponse,
+    ]);
+
+    await expect(response).rejects.toBe(expiredToken);
+    expect(sentTokens).toEqual(["Bearer old-token"]);
+  });
+
+  it("passes other errors through without a refresh", async () => {
+    const notFound = new RpcError("User not found", "NOT_FOUND");
+
+    const { response } = await sendRead([notFound]);
+
+    await expect(response).rejects.toBe(notFound);
+    expect(recordedCallsTo("Refresh")).toHaveLength(0);
+  });
+});
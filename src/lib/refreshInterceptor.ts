@@ -0,0 +1,196 @@
+//-- ./src/lib/refreshInterceptor.ts
+
+/**
+ * # Refresh Interceptor
+ *
+ * Recovers unary calls that fail because the access token expired mid-session.
+ */
+
+import { isTransientError } from "@/lib/errors";
+import {
+  AuthenticationService,
+  type RefreshResponse,
+} from "@/lib/grpc/authentication";
+import { NESTED_CALL_OPTION } from "@/lib/retryInterceptor";
+import Logger from "@/logger";
+import { sendRefreshRequest } from "@/services/authentication";
+import { GrpcStatusCode } from "@protobuf-ts/grpcweb-transport";
+import {
+  RpcError,
+  UnaryCall,
+  type FinishedUnaryCall,
+  type RpcInterceptor,
+  type RpcOptions,
+} from "@protobuf-ts/runtime-rpc";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+/**
+ * # Token Refresh Listener
+ *
+ * Notified when the interceptor refreshes the access token, or when the
+ * refresh fails and the session has expired.
+ */
+export type TokenRefreshListener = {
+  onRefreshed: (response: RefreshResponse) => void;
+  onExpired: (error: unknown) => void;
+};
+
+const listeners = new Set<TokenRefreshListener>();
+
+// Authentication methods that do not use the access token. Retrying the
+// refresh method would wait on its own refresh.
+const ANONYMOUS_METHODS = ["Login", "Refresh", "Register", "ResetPassword"];
+
+// The refresh request shared by every call waiting on a new access token
+let inFlightRefresh: Promise<string> | undefined;
+
+/**
+ * # Subscribe To Token Refresh
+ *
+ * @param listener - Called when a refresh succeeds or fails
+ * @returns A function that removes the listener
+ */
+export function subscribeToTokenRefresh(
+  listener: TokenRefreshListener
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * # Refresh Access Token
+ *
+ * Sends a single refresh request, concurrent callers share the request in
+ * flight. Listeners are notified once per refresh, a transient failure is
+ * thrown without notifying them.
+ *
+ * @param options - Options of the refresh call, unused when joining a refresh
+ * in flight
+ * @returns Promise resolving to the new access token
+ */
+export function refreshAccessToken(options?: RpcOptions): Promise<string> {
+  if (!inFlightRefresh) {
+    inFlightRefresh = (async () => {
+      try {
+        const response = await sendRefreshRequest(options);
+
+        if (!response.accessToken || response.user === undefined) {
+          throw new Error("Refresh response is missing the access token");
+        }
+
+        listeners.forEach((listener) => listener.onRefreshed(response));
+
+        return response.accessToken;
+      } catch (error) {
+        // A refresh that could not reach the backend says nothing about the
+        // session, so it is retried later instead of ending the session
+        if (isTransientError(error)) {
+          log.warn("Access token refresh could not reach the backend:", error);
+          throw error;
+        }
+
+        log.error("Access token refresh failed, session expired:", error);
+
+        listeners.forEach((listener) => listener.onExpired(error));
+
+        throw error;
+      } finally {
+        inFlightRefresh = undefined;
+      }
+    })();
+  }
+
+  return inFlightRefresh;
+}
+
+/**
+ * Is the error the server rejecting the access token
+ */
+function isUnauthenticated(error: unknown): error is RpcError {
+  return (
+    error instanceof RpcError &&
+    error.code === GrpcStatusCode[GrpcStatusCode.UNAUTHENTICATED]
+  );
+}
+
+/**
+ * # Refresh Interceptor
+ *
+ * Only calls sent with a bearer token are retried, so anonymous calls and the
+ * login, refresh, register and reset password methods pass straight through. When such a call fails with
+ * `UNAUTHENTICATED`, the access token is refreshed once and the call is
+ * replayed with the new token. If the refresh fails the original error is
+ * returned to the caller.
+ *
+ * Must be placed after `authInterceptor` in the transport interceptors, so the
+ * replayed call is not given the old token again.
+ *
+ * @returns {RpcInterceptor} - The refresh interceptor
+ */
+const refreshInterceptor = (): RpcInterceptor => ({
+  interceptUnary(next, method, input, options): UnaryCall {
+    const isAnonymous =
+      method.service.typeName === AuthenticationService.typeName &&
+      ANONYMOUS_METHODS.includes(method.name);
+
+    if (isAnonymous || !options.meta?.authorization) {
+      return next(method, input, options);
+    }
+
+    // Settles with the original call, or with the replayed call after a refresh
+    const finished = (async (): Promise<FinishedUnaryCall<object, object>> => {
+      try {
+        return await next(method, input, options);
+      } catch (error) {
+        if (!isUnauthenticated(error)) {
+          throw error;
+        }
+
+        log.debug("Access token rejected, refreshing for:", method.name);
+
+        let accessToken: string;
+        try {
+          // The refresh is sent while this call is in flight
+          accessToken = await refreshAccessToken({
+            [NESTED_CALL_OPTION]: true,
+          });
+        } catch {
+          throw error;
+        }
+
+        return await next(method, input, {
+          ...options,
+          meta: {
+            ...options.meta,
+            authorization: `Bearer ${accessToken}`,
+          },
+        });
+      }
+    })();
+
+    const headers = finished.then((result) => result.headers);
+    const status = finished.then((result) => result.status);
+    const trailers = finished.then((result) => result.trailers);
+
+    // Callers usually only await the response, the error surfaces there
+    [headers, status, trailers].forEach((promise) =>
+      promise.catch(() => undefined)
+    );
+
+    return new UnaryCall(
+      method,
+      options.meta ?? {},
+      input,
+      headers,
+      finished.then((result) => result.response),
+      status,
+      trailers
+    );
+  },
+});
+
+export default refreshInterceptor;
@@ -0,0 +1,50 @@
+//-- ./src/lib/requireRole.ts
+
+import { hasRole, type RoleType } from "@/domains/role";
+
+/**
+ * # Forbidden Error
+ *
+ * Thrown from a route's `beforeLoad` when the current user's role is not
+ * allowed to open the route.
+ */
+export class ForbiddenError extends Error {
+  constructor(
+    public readonly role: RoleType | undefined,
+    public readonly allowed: readonly RoleType[]
+  ) {
+    super(
+      `Role "${role ?? "none"}" is not allowed, requires one of: ${allowed.join(", ")}`
+    );
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * # Require Role
+ *
+ * Route guard for `beforeLoad`. Collects the `staticData.roles` of every
+ * matched route and throws a `ForbiddenError` when the role is not allowed by
+ * all of them.
+ *
+ * @example
+ * beforeLoad: ({ context, matches }) => {
+ *   requireRole(context.authentication.currentUser?.role, matches);
+ * }
+ *
+ * @param role - The current user's role
+ * @param matches - The route matches being loaded
+ * @throws {ForbiddenError} If any matched route does not allow the role
+ */
+export function requireRole(
+  role: RoleType | undefined,
+  matches: ReadonlyArray<{ staticData?: { roles?: readonly RoleType[] } }>
+): void {
+  for (const match of matches) {
+    const allowed = match.staticData?.roles;
+
+    if (!hasRole(role, allowed)) {
+      throw new ForbiddenError(role, allowed ?? []);
+    }
+  }
+}
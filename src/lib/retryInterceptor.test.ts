@@ -0,0 +1,129 @@
+import { CircuitBreaker, CircuitOpenError } from "@/lib/circuitBreaker";
+import { ReadUserRequest, UserResponse, UsersService } from "@/lib/grpc/users";
+import { findMethod } from "@/lib/methodInfo";
+import {
+  RpcError,
+  TestTransport,
+  type MethodInfo,
+  type NextUnaryFn,
+  type RpcOptions,
+} from "@protobuf-ts/runtime-rpc";
+import { describe, expect, it } from "vitest";
+import retryInterceptor, { NESTED_CALL_OPTION } from "./retryInterceptor";
+
+const read = findMethod(UsersService, "Read");
+const create = findMethod(UsersService, "Create");
+
+// Retries without a wait, so the tests do not need fake timers
+const policies = {
+  "authentication.UsersService/Read": { maxAttempts: 3, initialBackoffMs: 0 },
+};
+
+const userResponse = UserResponse.create({
+  id: "0191f2a0-0000-7000-8000-000000000002",
+  email: "user@example.com",
+});
+
+const unavailable = new RpcError("Service unavailable", "UNAVAILABLE");
+
+/**
+ * Send a call through the interceptor, the backend answers each attempt with
+ * the next of the responses
+ */
+function send(
+  method: MethodInfo,
+  responses: (object | RpcError)[],
+  circuitBreaker = new CircuitBreaker(),
+  options: RpcOptions = {}
+) {
+  let attempts = 0;
+  const next: NextUnaryFn = (method, input, options) => {
+    attempts += 1;
+    return new TestTransport({ response: responses.shift() }).unary(
+      method,
+      input,
+      options
+    );
+  };
+
+  const call = retryInterceptor(policies, circuitBreaker).interceptUnary!(
+    next,
+    method,
+    ReadUserRequest.create({ id: userResponse.id }),
+    options
+  );
+
+  return { response: call.response, attempts: () => attempts };
+}
+
+describe("retryInterceptor", () => {
+  it("retries a transient failure until the backend answers", async () => {
+    const { response, attempts } = send(read, [
+      unavailable,
+      unavailable,
+      userResponse,
+    ]);
+
+    await expect(response).resolves.toEqual(userResponse);
+    expect(attempts()).toBe(3);
+  });
+
+  it("gives up after the attempts of the policy", async () => {
+    const { response, attempts } = send(read, [
+      unavailable,
+      unavailable,
+      unavailable,
+      userResponse,
+    ]);
+
+    await expect(response).rejects.toBe(unavailable);
+    expect(attempts()).toBe(3);
+  });
+
+  it("sends methods without a policy once", async () => {
+    const { response, attempts } = send(create, [unavailable, userResponse]);
+
+    await expect(response).rejects.toBe(unavailable);
+    expect(attempts()).toBe(1);
+  });
+
+  it("returns an error answered by the backend straight away", async () => {
+    const notFound = new RpcError("User not found", "NOT_FOUND");
+
+    const { response, attempts } = send(read, [notFound, userResponse]);
+
+    await expect(response).rejects.toBe(notFound);
+    expect(attempts()).toBe(1);
+  });
+
+  it("fails fast while the circuit is open", async () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+    circuitBreaker.allowRequest();
+    circuitBreaker.recordFailure();
+
+    const { response, attempts } = send(read, [userResponse], circuitBreaker);
+
+    await expect(response).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(attempts()).toBe(0);
+  });
+
+  it("lets a nested call past the half open trial", async () => {
+    const circuitBreaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 0,
+    });
+    circuitBreaker.allowRequest();
+    circuitBreaker.recordFailure();
+    await new Promise((resolve) => setTimeout(resolve));
+
+    // The trial call is in flight
+    expect(circuitBreaker.allowRequest()).toBe(true);
+
+    const { response } = send(read, [userResponse], circuitBreaker, {
+      [NESTED_CALL_OPTION]: true,
+    });
+
+    await expect(response).resolves.toEqual(userResponse);
+    expect(circuitBreaker.getState()).toBe("closed");
+  });
+});
@@ -0,0 +1,206 @@
+//-- ./src/lib/retryInterceptor.ts
+
+/**
+ * # Retry Interceptor
+ *
+ * Retries idempotent unary calls that fail because the backend could not be
+ * reached, for example while it restarts. Calls wait a jittered exponential
+ * backoff between attempts, and every attempt goes through the circuit breaker
+ * so a backend that stays down fails fast.
+ */
+
+import { configuration, type RetryPolicySetting } from "@/configuration";
+import {
+  backendCircuitBreaker,
+  CircuitOpenError,
+  type CircuitBreaker,
+} from "@/lib/circuitBreaker";
+import { isTransientError } from "@/lib/errors";
+import { methodKey } from "@/lib/methodInfo";
+import Logger from "@/logger";
+import {
+  UnaryCall,
+  type FinishedUnaryCall,
+  type RpcInterceptor,
+} from "@protobuf-ts/runtime-rpc";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+/**
+ * # Retry Policy
+ *
+ * How often and how far apart a failed call is retried.
+ */
+export type RetryPolicy = {
+  /**
+   * Attempts in total, including the first call
+   */
+  maxAttempts: number;
+
+  /**
+   * The longest wait before the first retry
+   */
+  initialBackoffMs: number;
+
+  /**
+   * The longest wait before any retry
+   */
+  maxBackoffMs: number;
+
+  /**
+   * How much the longest wait grows after each retry
+   */
+  backoffMultiplier: number;
+};
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialBackoffMs: 250,
+  maxBackoffMs: 4_000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * # Nested Call Option
+ *
+ * Set to `true` in the options of a call sent while handling another call, like
+ * the refresh of a call rejected for an expired token. The outer call waits on
+ * it, so the circuit breaker lets it through while the outer call is the half
+ * open trial.
+ */
+export const NESTED_CALL_OPTION = "nestedCall";
+
+/**
+ * Full jitter, a random wait up to the exponential backoff for the attempt
+ */
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(
+    policy.initialBackoffMs * policy.backoffMultiplier ** (attempt - 1),
+    policy.maxBackoffMs
+  );
+
+  return Math.random() * ceiling;
+}
+
+/**
+ * Wait before the next attempt, resolving early when the call is aborted
+ */
+function sleep(ms: number, abort?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+
+    function done() {
+      clearTimeout(timer);
+      abort?.removeEventListener("abort", done);
+      resolve();
+    }
+
+    abort?.addEventListener("abort", done);
+  });
+}
+
+/**
+ * # Retry Interceptor
+ *
+ * Methods not listed in `policies` are sent once, but still go through the
+ * circuit breaker. The policies are read from `GRPC_RETRY_POLICIES`. Only transient failures are retried, an error answered by
+ * the backend is returned straight away.
+ *
+ * Must be placed first in the transport interceptors, so each retry is sent
+ * with the current access token.
+ *
+ * @param policies - The methods to retry and their limits, keyed by method
+ * @param circuitBreaker - The circuit breaker for the transport
+ * @returns {RpcInterceptor} - The retry interceptor
+ */
+const retryInterceptor = (
+  policies: Record<
+    string,
+    RetryPolicySetting
+  > = configuration.GRPC_RETRY_POLICIES,
+  circuitBreaker: CircuitBreaker = backendCircuitBreaker
+): RpcInterceptor => {
+  const policiesByMethod = new Map(
+    Object.entries(policies).map(([key, policy]): [string, RetryPolicy] => [
+      key,
+      { ...DEFAULT_RETRY_POLICY, ...policy },
+    ])
+  );
+
+  return {
+    interceptUnary(next, method, input, options): UnaryCall {
+      const policy = policiesByMethod.get(methodKey(method));
+      const maxAttempts = policy?.maxAttempts ?? 1;
+      const isNestedCall = options[NESTED_CALL_OPTION] === true;
+
+      // Settles with the first attempt that reaches the backend, or the last
+      const finished = (async (): Promise<
+        FinishedUnaryCall<object, object>
+      > => {
+        for (let attempt = 1; ; attempt++) {
+          if (!circuitBreaker.allowRequest(isNestedCall)) {
+            throw new CircuitOpenError(method.name);
+          }
+
+          try {
+            const result = await next(method, input, options);
+            circuitBreaker.recordSuccess();
+            return result;
+          } catch (error) {
+            // A call cancelled by the caller says nothing about the backend
+            if (options.abort?.aborted) {
+              circuitBreaker.recordCancelled();
+              throw error;
+            }
+
+            if (!isTransientError(error)) {
+              circuitBreaker.recordSuccess();
+              throw error;
+            }
+
+            circuitBreaker.recordFailure();
+
+            if (!policy || attempt >= maxAttempts) {
+              throw error;
+            }
+
+            const delay = backoffDelay(policy, attempt);
+
+            log.warn(
+              `${method.name} failed, retry ${attempt} of ${maxAttempts - 1} in ${Math.round(delay)}ms:`,
+              error
+            );
+
+            await sleep(delay, options.abort);
+
+            if (options.abort?.aborted) {
+              throw error;
+            }
+          }
+        }
+      })();
+
+      const headers = finished.then((result) => result.headers);
+      const status = finished.then((result) => result.status);
+      const trailers = finished.then((result) => result.trailers);
+
+      // Callers usually only await the response, the error surfaces there
+      [headers, status, trailers].forEach((promise) =>
+        promise.catch(() => undefined)
+      );
+
+      return new UnaryCall(
+        method,
+        options.meta ?? {},
+        input,
+        headers,
+        finished.then((result) => result.response),
+        status,
+        trailers
+      );
+    },
+  };
+};
+
+export default retryInterceptor;
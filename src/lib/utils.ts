@@ -14,4 +14,4 @@ export function isValidUrl(url: string): boolean {
   } catch {
     return false;
   }
-}
\ No newline at end of file
+}
@@ -1,12 +1,44 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
-import { App } from "@/App";
-import AuthenticationProvider from "./components/AuthenticationProvider";
-
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <AuthenticationProvider>
-      <App />
-    </AuthenticationProvider>
-  </StrictMode>
-);
+import { configuration, type ConfigurationIssue } from "@/configuration";
+
+const container = document.getElementById("root")!;
+
+// Show the configuration problems instead of the application
+async function renderConfigurationError(issues: ConfigurationIssue[]) {
+  const { ConfigurationError } = await import(
+    "./components/ConfigurationError"
+  );
+
+  createRoot(container).render(
+    <StrictMode>
+      <ConfigurationError issues={issues} />
+    </StrictMode>
+  );
+}
+
+// Load the runtime configuration before importing the application
+configuration
+  .load()
+  .then(
+    async () => {
+      if (!configuration.isValid) {
+        await renderConfigurationError(configuration.issues);
+        return;
+      }
+
+      const { renderRoot } = await import("./root");
+      renderRoot(container);
+    },
+    (error) => {
+      console.error("Unable to load the runtime configuration:", error);
+
+      return renderConfigurationError([
+        {
+          key: "config.json",
+          message: `Could not be loaded: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ]);
+    }
+  )
+  .catch((error) => console.error("Unable to start the application:", error));
@@ -9,8 +9,18 @@
 
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import Logger from "@/logger";
-import type { LoginResponse } from "@/lib/grpc/authentication";
-import { sendLoginRequest } from "@/services/authentication";
+import type {
+  LoginResponse,
+  RegisterResponse,
+  ResetPasswordResponse,
+  UpdatePasswordResponse,
+} from "@/lib/grpc/authentication";
+import {
+  sendLoginRequest,
+  sendRegisterRequest,
+  sendResetPasswordRequest,
+  sendUpdatePasswordRequest,
+} from "@/services/authentication";
 
 /**
  * ## Logger Instance
@@ -72,3 +82,72 @@ export function useAuthenticationMutation() {
     },
   });
 }
+
+// ## Register Mutation Hook
+//
+// This hook is used to register a new user account with the backend. It accepts
+// an email and password and returns the register response, whose message is
+// shown to the user.
+export function useRegisterMutation() {
+  return useMutation({
+    mutationKey: [AUTHENTICATION_QUERY_KEY, "register"],
+    mutationFn: async ({
+      email,
+      password,
+    }: {
+      email: string;
+      password: string;
+    }): Promise<RegisterResponse> => sendRegisterRequest(email, password),
+    onSuccess: (data) => {
+      log.debug("Register mutation was successful: ", data.message);
+    },
+    onError: (error: Error) => {
+      log.error("Register mutation failed:", error);
+    },
+  });
+}
+
+// ## Reset Password Mutation Hook
+//
+// This hook is used to request a password reset for an email address. The
+// response is only logged, callers should show a neutral confirmation so the
+// existence of an account is not revealed.
+export function useResetPasswordMutation() {
+  return useMutation({
+    mutationKey: [AUTHENTICATION_QUERY_KEY, "resetPassword"],
+    mutationFn: async (email: string): Promise<ResetPasswordResponse> =>
+      sendResetPasswordRequest(email),
+    onSuccess: (data) => {
+      log.debug("Reset password mutation was successful: ", data.message);
+    },
+    onError: (error: Error) => {
+      log.error("Reset password mutation failed:", error);
+    },
+  });
+}
+
+// ## Update Password Mutation Hook
+//
+// This hook is used to change the password of the signed in user. It accepts
+// the email, original and new passwords.
+export function useUpdatePasswordMutation() {
+  return useMutation({
+    mutationKey: [AUTHENTICATION_QUERY_KEY, "updatePassword"],
+    mutationFn: async ({
+      email,
+      passwordOriginal,
+      passwordNew,
+    }: {
+      email: string;
+      passwordOriginal: string;
+      passwordNew: string;
+    }): Promise<UpdatePasswordResponse> =>
+      sendUpdatePasswordRequest(email, passwordOriginal, passwordNew),
+    onSuccess: (data) => {
+      log.debug("Update password mutation was successful: ", data.message);
+    },
+    onError: (error: Error) => {
+      log.error("Update password mutation failed:", error);
+    },
+  });
+}
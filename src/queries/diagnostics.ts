@@ -0,0 +1,37 @@
+//-- ./src/queries/diagnostics.ts
+
+/**
+ * # Diagnostics Query
+ *
+ * Runs the connection checks shown on the /status route.
+ */
+
+import { runDiagnostics, type DiagnosticsReport } from "@/lib/diagnostics";
+import { useQuery, type UseQueryResult } from "@tanstack/react-query";
+
+const DIAGNOSTICS = {
+  QUERY_KEY: "diagnostics",
+} as const;
+
+/**
+ * ### Use Diagnostics Query
+ *
+ * The checks run when the page opens and again on `refetch`, never in the
+ * background, so the report stays as the user saw it.
+ *
+ * @returns {UseQueryResult<DiagnosticsReport, Error>}
+ */
+export function useDiagnosticsQuery(): UseQueryResult<
+  DiagnosticsReport,
+  Error
+> {
+  return useQuery({
+    queryKey: [DIAGNOSTICS.QUERY_KEY],
+    queryFn: ({ signal }) => runDiagnostics(signal),
+    retry: false,
+    staleTime: Infinity,
+    gcTime: 0,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  });
+}
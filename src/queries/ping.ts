@@ -12,7 +12,7 @@
  * @subcategory Ping
  */
 
-import { PingResponse } from "@/lib/grpc/utilities";
+import { configuration } from "@/configuration";
 import { useMutation, useQuery, useQueryClient, type UseQueryResult } from "@tanstack/react-query";
 import Logger from "@/logger";
 import { UtilitiesService } from "@/services/utilities";
@@ -30,45 +30,70 @@ const PING = {
   STORAGE_KEY: "auth_server_status",
 } as const;
 
+/**
+ * # Ping Status
+ *
+ * The outcome of a ping that reached the backend.
+ */
+export type PingStatus = {
+  /**
+   * The message from the server's ping response
+   */
+  message: string;
+
+  /**
+   * Round trip time of the request in milliseconds, including any retries
+   */
+  latencyMs: number;
+};
+
 /**
  * # Ping
  *
  * This function is used to send a ping request to the backend. The function
- * returns a promise that resolves to a PingResponse object.
+ * returns a promise that resolves to the server message and latency.
  *
- * @returns {Promise<PingResponse>}
+ * @param signal - Cancels the request when aborted
+ * @returns {Promise<PingStatus>}
  */
-const ping = async (): Promise<PingResponse> => {
+const ping = async (signal?: AbortSignal): Promise<PingStatus> => {
   const utilitiesService = await UtilitiesService.getInstance();
-  const response = await utilitiesService.ping();
-  return response;
+
+  const startedAt = performance.now();
+  const response = await utilitiesService.ping(signal);
+
+  return {
+    message: response.message,
+    latencyMs: Math.round(performance.now() - startedAt),
+  };
 };
 
 /**
  * ### Use Ping Query
  *
  * The usePingQuery hook is a TanStack Query hook that is used to send a ping
- * request to the backend.
+ * request to the backend. The ping is repeated every `PING_INTERVAL_SECONDS`,
+ * and every component using the hook shares the same ping.
  *
- * @returns {UseQueryResult<PingResponse, unknown>}
+ * @returns {UseQueryResult<PingStatus, Error>}
  */
-export function usePingQuery(): UseQueryResult<PingResponse, unknown> {
+export function usePingQuery(): UseQueryResult<PingStatus, Error> {
+  const intervalMs = configuration.PING_INTERVAL_SECONDS * 1000;
+
   return useQuery({
     queryKey: [PING.QUERY_KEY],
-    queryFn: ping,
-    // retry: 2,
-    // retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
-    // staleTime: 30000, // 30 seconds
-    // gcTime: 30000,
+    queryFn: ({ signal }) => ping(signal),
+    refetchInterval: intervalMs > 0 ? intervalMs : false,
+    // The retry interceptor already retries a failed ping, report the failure
+    retry: false,
   });
 }
-
 /**
  * # Use Ping Mutation
  *
  * The usePingMutation hook is a TanStack Query hook that is used to send a ping.
  *
- * @returns {UseMutationResult<PingResponse, unknown, void>}
+ * @returns {UseMutationResult<PingStatus, Error, void>}
  */
 export function usePingMutation() {
   log.debug("Creating a new ping mutation hook");
@@ -81,10 +106,10 @@ export function usePingMutation() {
     mutationKey: [PING.QUERY_KEY],
 
     // Parameters need to be wrapped in an object
-    mutationFn: ping,
+    mutationFn: () => ping(),
 
     // Do something with the mutation function data returned
-    onSuccess: (data: PingResponse) => {
+    onSuccess: (data: PingStatus) => {
       log.debug("Ping mutation was successful");
 
       // Set the TokenResponse data in the query cache
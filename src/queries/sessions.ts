@@ -0,0 +1,262 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  SessionsService,
+  type IndexSessionsParams,
+} from "@/services/sessions";
+import Logger from "@/logger";
+import { sessionFromSessionsResponse, type Session } from "@/domains/session";
+
+/**
+ * Pagination Parameters
+ *
+ * Use page-based pagination for easier UI controls, URL sharing and bookmarking.
+ */
+type PaginationParams = {
+  page: number;
+  perPage: number;
+};
+
+const SESSIONS = {
+  all: ["sessions"] as const,
+  lists: (params?: { page: number; perPage: number }) =>
+    [...SESSIONS.all, "list", params] as const,
+  user: (userId: string) => [...SESSIONS.all, "user", userId] as const,
+  details: () => [...SESSIONS.all, "detail"] as const,
+  detail: (id: string) => [...SESSIONS.details(), id] as const,
+} as const;
+
+/**
+ * Page size used when listing a single user's sessions. The backend index has
+ * no user filter, so every page is read and the sessions are filtered client
+ * side.
+ */
+const USER_SESSIONS_PAGE_SIZE = 100n;
+
+/**
+ * Create a new logger object
+ *
+ * @type {Logger}
+ */
+const log: Logger = Logger.getInstance();
+
+/**
+ * # Sessions Read Query
+ *
+ * A hook for reading a session with Tanstack Query.
+ *
+ * @param id - The ID string of the session
+ * @returns Query result with the domain `Session`
+ */
+export function useSessionsReadQuery(id: string) {
+  return useQuery({
+    queryKey: SESSIONS.detail(id),
+    queryFn: async ({ signal }): Promise<Session> => {
+      const sessionsService = await SessionsService.getInstance();
+      const response = await sessionsService.read(id, signal);
+      return sessionFromSessionsResponse(response);
+    },
+  });
+}
+
+/**
+ * # Sessions Index Query
+ *
+ * A hook for reading an index of sessions using Tanstack Query
+ *
+ * @param pagination? - Optional pagination parameters to use in the grpc request
+ * @returns Query result with the domain `Session[]`
+ */
+export function useSessionsIndexQuery(pagination?: PaginationParams) {
+  // Initialise page and perPage with default values if not provided in function parameters.
+  const { page = 1, perPage = 10 } = pagination ?? {};
+
+  return useQuery({
+    queryKey: SESSIONS.lists({ page, perPage }),
+    queryFn: async ({ signal }): Promise<{ sessions: Session[] }> => {
+      // Convert page to offset for backend
+      const indexSessionsRequest: IndexSessionsParams = {
+        limit: BigInt(perPage),
+        offset: BigInt((page - 1) * perPage),
+      };
+
+      const sessionsService = await SessionsService.getInstance();
+
+      const response = await sessionsService.index(
+        indexSessionsRequest,
+        signal
+      );
+
+      // Map the SessionsResponse[] to domain Session[]
+      const sessions = response.sessions.map(sessionFromSessionsResponse);
+
+      log.debug("Fetched sessions index: ", sessions);
+
+      return { sessions };
+    },
+  });
+}
+
+/**
+ * # User Sessions Query
+ *
+ * A hook for reading the sessions belonging to a single user, newest first.
+ * Pages through the whole index, so no session of the user is left out. Fails
+ * with a `permissionDenied` error when the backend does not let the user list
+ * sessions.
+ *
+ * @param userId? - The ID string of the user, the query is disabled until set
+ * @returns Query result with the user's domain `Session[]`
+ */
+export function useUserSessionsQuery(userId?: string) {
+  return useQuery({
+    queryKey: SESSIONS.user(userId ?? ""),
+    enabled: !!userId,
+    queryFn: async ({ signal }): Promise<{ sessions: Session[] }> => {
+      const sessionsService = await SessionsService.getInstance();
+      const sessions: Session[] = [];
+
+      // A short page is the last one
+      for (let offset = 0n; ; offset += USER_SESSIONS_PAGE_SIZE) {
+        const response = await sessionsService.index(
+          {
+            limit: USER_SESSIONS_PAGE_SIZE,
+            offset,
+          },
+          signal
+        );
+
+        sessions.push(
+          ...response.sessions
+            .map(sessionFromSessionsResponse)
+            .filter((session) => session.userId === userId)
+        );
+
+        if (BigInt(response.sessions.length) < USER_SESSIONS_PAGE_SIZE) break;
+      }
+
+      sessions.sort((a, b) => b.loginOn.getTime() - a.loginOn.getTime());
+
+      log.debug("Fetched user sessions: ", sessions);
+
+      return { sessions };
+    },
+  });
+}
+
+/**
+ * # Revoke Session
+ *
+ * A mutation hook for revoking a single session with Tanstack Query
+ */
+export function useRevokeSessionMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const sessionsService = await SessionsService.getInstance();
+      return sessionsService.revoke(sessionId);
+    },
+    onSuccess: (_, sessionId) => {
+      // Invalidate the sessions queries to refetch the active state
+      queryClient.invalidateQueries({ queryKey: SESSIONS.all });
+
+      log.debug("Session revoked successfully", { sessionId });
+    },
+    onError: (error: Error, sessionId) => {
+      log.error("Failed to revoke session:", { error, sessionId });
+    },
+  });
+}
+
+/**
+ * # Revoke User Sessions
+ *
+ * A mutation hook for revoking all sessions of a user with Tanstack Query
+ */
+export function useRevokeUserSessionsMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const sessionsService = await SessionsService.getInstance();
+      return sessionsService.revokeUser(userId);
+    },
+    onSuccess: (data, userId) => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS.all });
+
+      log.debug("User sessions revoked successfully", {
+        userId,
+        rowsAffected: data.rowsAffected,
+      });
+    },
+    onError: (error: Error, userId) => {
+      log.error("Failed to revoke user sessions:", { error, userId });
+    },
+  });
+}
+
+/**
+ * # Revoke Other Sessions
+ *
+ * A mutation hook for revoking a list of sessions, used to sign a user out of
+ * every device except the one in use. The backend `revokeUser` would also revoke
+ * the current session, so each session is revoked individually.
+ */
+export function useRevokeOtherSessionsMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionIds: string[]): Promise<bigint> => {
+      const sessionsService = await SessionsService.getInstance();
+
+      const responses = await Promise.all(
+        sessionIds.map((id) => sessionsService.revoke(id))
+      );
+
+      // Total number of sessions revoked on the backend
+      return responses.reduce(
+        (total, { rowsAffected }) => total + rowsAffected,
+        0n
+      );
+    },
+    onSuccess: (rowsAffected, sessionIds) => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS.all });
+
+      log.debug("Other sessions revoked successfully", {
+        sessionIds,
+        rowsAffected,
+      });
+    },
+    onError: (error: Error, sessionIds) => {
+      log.error("Failed to revoke other sessions:", { error, sessionIds });
+    },
+  });
+}
+
+/**
+ * # Delete Session
+ *
+ * A mutation hook for deleting a session with TanStack Query
+ */
+export function useDeleteSessionMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const sessionsService = await SessionsService.getInstance();
+      return sessionsService.delete(sessionId);
+    },
+    onSuccess: (_, sessionId) => {
+      // Remove the session from the cache
+      queryClient.removeQueries({ queryKey: SESSIONS.detail(sessionId) });
+
+      // Invalidate the sessions list query to refetch
+      queryClient.invalidateQueries({ queryKey: SESSIONS.all });
+
+      log.debug("Session deleted successfully", { sessionId });
+    },
+    onError: (error: Error, sessionId) => {
+      log.error("Failed to delete session:", { error, sessionId });
+    },
+  });
+}
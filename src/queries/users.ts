@@ -1,5 +1,11 @@
 import type { UserResponse } from "@/lib/grpc/users";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  queryOptions,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import {
   UsersService,
   type CreateUserParams,
@@ -17,7 +23,7 @@ import { userFromUserResponse, type User } from "@/domains/user";
  * TODO
  * - [ ] Consider using optimistic updates for mutations
  */
-type PaginationParams = {
+export type PaginationParams = {
   page: number;
   perPage: number;
 };
@@ -56,7 +62,7 @@ export function useCreateUserMutation() {
     },
     onSuccess: () => {
       // Invalidate user query to refetch the list
-      queryClient.invalidateQueries({ queryKey: [USERS.all] });
+      queryClient.invalidateQueries({ queryKey: USERS.all });
       log.debug("User created successfully");
     },
     onError: (error: Error) => {
@@ -76,32 +82,30 @@ export function useCreateUserMutation() {
 export function useUsersReadQuery(id: string) {
   return useQuery({
     queryKey: USERS.detail(id),
-    queryFn: async (): Promise<UserResponse> => {
+    queryFn: async ({ signal }): Promise<UserResponse> => {
       const usersService = await UsersService.getInstance();
-      return usersService.read(id);
+      return usersService.read(id, signal);
     },
   });
 }
 
 /**
- * # User Index Query
+ * # User Index Query Options
  *
- * A hook for reading an index of users using Tanstack Query
+ * The query options for one page of the users index. Shared by
+ * `useUsersIndexQuery` and by callers that prefetch a page with the query
+ * client, so both use the same key and query function.
  *
- * @param accessToken? - Optional access token to use in the grpc request
  * @param pagination? - Optional pagination parameters to use in the grpc request
  * @returns
  */
-export function useUsersIndexQuery(
-  accessToken?: string,
-  pagination?: PaginationParams
-) {
+export function usersIndexQueryOptions(pagination?: PaginationParams) {
   // Initialise page and perPage with default values if not provided in function parameters.
   const { page = 1, perPage = 10 } = pagination ?? {};
 
-  return useQuery({
+  return queryOptions({
     queryKey: USERS.lists({ page, perPage }),
-    queryFn: async (): Promise<{users: User[]}> => {
+    queryFn: async ({ signal }): Promise<{users: User[]}> => {
       // Convert page to offset for backend
       const offset = BigInt((page - 1) * perPage);
       const limit = BigInt(perPage);
@@ -112,11 +116,12 @@ export function useUsersIndexQuery(
         offset,
       };
 
-      // Get the user service instance while passing the access token if provided.
-      const usersService = await UsersService.getInstance(accessToken);
+      // Get the user service instance
+      const usersService = await UsersService.getInstance();
 
       // Get the users from the backend
-      const response = await usersService.index(indexUsersRequest);
+      // Changing page or leaving the page aborts the signal and the request
+      const response = await usersService.index(indexUsersRequest, signal);
 
       // Map the UserResponse[] to domain User[]
       const users = response.users.map(userFromUserResponse);
@@ -128,6 +133,22 @@ export function useUsersIndexQuery(
   });
 }
 
+/**
+ * # User Index Query
+ *
+ * A hook for reading an index of users using Tanstack Query. The previous page
+ * stays on screen while the next one loads.
+ *
+ * @param pagination? - Optional pagination parameters to use in the grpc request
+ * @returns
+ */
+export function useUsersIndexQuery(pagination?: PaginationParams) {
+  return useQuery({
+    ...usersIndexQueryOptions(pagination),
+    placeholderData: keepPreviousData,
+  });
+}
+
 /**
  * # Update User
  *
@@ -145,11 +166,11 @@ export function useUpdateUserMutation() {
     },
     onSuccess: (data, variables) => {
       // Update the user in the cache
-      queryClient.setQueryData([USERS.all, variables.id], data);
+      queryClient.setQueryData(USERS.detail(variables.id), data);
 
       // Invalidate the user list query
       queryClient.invalidateQueries({
-        queryKey: [USERS.all],
+        queryKey: USERS.all,
       });
 
       log.debug("User updated successfully", { userID: variables.id });
@@ -180,12 +201,12 @@ export function useDeleteUserMutation() {
     onSuccess: (_, userId) => {
       // Remove the user from the cache
       queryClient.removeQueries({
-        queryKey: [USERS.all, userId],
+        queryKey: USERS.detail(userId),
       });
 
       // Invalidate the users list query to refetch
       queryClient.invalidateQueries({
-        queryKey: [USERS.all],
+        queryKey: USERS.all,
       });
 
       log.debug("User deleted successfully", { userId });
@@ -198,3 +219,81 @@ export function useDeleteUserMutation() {
     },
   });
 }
+
+/**
+ * # Delete User Result
+ *
+ * The outcome of deleting one user in a bulk delete. A user counts as deleted
+ * when the request succeeds and the backend reports at least one affected row.
+ */
+export type DeleteUserResult = {
+  user: User;
+  rowsAffected: bigint;
+  error?: Error;
+};
+
+/**
+ * # Delete Users
+ *
+ * A mutation hook for deleting several users with TanStack Query. Users are
+ * deleted one at a time so `onProgress` can report each result as it lands,
+ * and a failure for one user does not stop the rest.
+ */
+export function useDeleteUsersMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      users,
+      onProgress,
+    }: {
+      users: User[];
+      onProgress?: (result: DeleteUserResult) => void;
+    }): Promise<DeleteUserResult[]> => {
+      const usersService = await UsersService.getInstance();
+      const results: DeleteUserResult[] = [];
+
+      for (const user of users) {
+        let result: DeleteUserResult;
+
+        try {
+          const { rowsAffected } = await usersService.delete(user.id);
+          result = { user, rowsAffected };
+        } catch (error) {
+          result = { user, rowsAffected: 0n, error: error as Error };
+        }
+
+        results.push(result);
+        onProgress?.(result);
+      }
+
+      return results;
+    },
+    onSettled: (results) => {
+      results?.forEach(({ user }) =>
+        queryClient.removeQueries({ queryKey: USERS.detail(user.id) })
+      );
+
+      queryClient.invalidateQueries({ queryKey: USERS.all });
+    },
+    onSuccess: (results) => {
+      log.debug("Bulk user delete finished", {
+        deleted: results.filter((result) => isUserDeleted(result)).length,
+        failed: results.filter((result) => !isUserDeleted(result)).length,
+      });
+    },
+    onError: (error: Error, { users }) => {
+      log.error("Failed to delete users:", {
+        error,
+        userIds: users.map((user) => user.id),
+      });
+    },
+  });
+}
+
+/**
+ * Whether a bulk delete result removed the user from the backend
+ */
+export function isUserDeleted({ rowsAffected, error }: DeleteUserResult) {
+  return !error && rowsAffected > 0n;
+}
@@ -0,0 +1,24 @@
+//-- ./src/root.tsx
+
+/**
+ * # Root
+ *
+ * Renders the application. Imported by `main.tsx` once the runtime
+ * configuration has loaded, so modules that read the configuration when they
+ * are imported see the loaded values.
+ */
+
+import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import { App } from "@/App";
+import AuthenticationProvider from "./components/AuthenticationProvider";
+
+export function renderRoot(container: HTMLElement) {
+  createRoot(container).render(
+    <StrictMode>
+      <AuthenticationProvider>
+        <App />
+      </AuthenticationProvider>
+    </StrictMode>
+  );
+}
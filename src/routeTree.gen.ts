@@ -14,10 +14,14 @@ import { Route as rootRoute } from './routes/__root'
 import { Route as UnprotectedRouteImport } from './routes/_unprotected/route'
 import { Route as ProtectedRouteImport } from './routes/_protected/route'
 import { Route as ProtectedIndexImport } from './routes/_protected/index'
+import { Route as UnprotectedStatusImport } from './routes/_unprotected/status'
+import { Route as UnprotectedRegisterImport } from './routes/_unprotected/register'
 import { Route as UnprotectedLogoutImport } from './routes/_unprotected/logout'
 import { Route as UnprotectedLoginImport } from './routes/_unprotected/login'
+import { Route as UnprotectedForgotPasswordImport } from './routes/_unprotected/forgot-password'
 import { Route as UnprotectedAuthenticatingImport } from './routes/_unprotected/authenticating'
 import { Route as ProtectedUsersImport } from './routes/_protected/users'
+import { Route as ProtectedSessionsImport } from './routes/_protected/sessions'
 import { Route as ProtectedAccountImport } from './routes/_protected/account'
 
 // Create/Update Routes
@@ -38,6 +42,18 @@ const ProtectedIndexRoute = ProtectedIndexImport.update({
   getParentRoute: () => ProtectedRouteRoute,
 } as any)
 
+const UnprotectedStatusRoute = UnprotectedStatusImport.update({
+  id: '/status',
+  path: '/status',
+  getParentRoute: () => UnprotectedRouteRoute,
+} as any)
+
+const UnprotectedRegisterRoute = UnprotectedRegisterImport.update({
+  id: '/register',
+  path: '/register',
+  getParentRoute: () => UnprotectedRouteRoute,
+} as any)
+
 const UnprotectedLogoutRoute = UnprotectedLogoutImport.update({
   id: '/logout',
   path: '/logout',
@@ -50,6 +66,12 @@ const UnprotectedLoginRoute = UnprotectedLoginImport.update({
   getParentRoute: () => UnprotectedRouteRoute,
 } as any)
 
+const UnprotectedForgotPasswordRoute = UnprotectedForgotPasswordImport.update({
+  id: '/forgot-password',
+  path: '/forgot-password',
+  getParentRoute: () => UnprotectedRouteRoute,
+} as any)
+
 const UnprotectedAuthenticatingRoute = UnprotectedAuthenticatingImport.update({
   id: '/authenticating',
   path: '/authenticating',
@@ -62,6 +84,12 @@ const ProtectedUsersRoute = ProtectedUsersImport.update({
   getParentRoute: () => ProtectedRouteRoute,
 } as any)
 
+const ProtectedSessionsRoute = ProtectedSessionsImport.update({
+  id: '/sessions',
+  path: '/sessions',
+  getParentRoute: () => ProtectedRouteRoute,
+} as any)
+
 const ProtectedAccountRoute = ProtectedAccountImport.update({
   id: '/account',
   path: '/account',
@@ -93,6 +121,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProtectedAccountImport
       parentRoute: typeof ProtectedRouteImport
     }
+    '/_protected/sessions': {
+      id: '/_protected/sessions'
+      path: '/sessions'
+      fullPath: '/sessions'
+      preLoaderRoute: typeof ProtectedSessionsImport
+      parentRoute: typeof ProtectedRouteImport
+    }
     '/_protected/users': {
       id: '/_protected/users'
       path: '/users'
@@ -107,6 +142,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof UnprotectedAuthenticatingImport
       parentRoute: typeof UnprotectedRouteImport
     }
+    '/_unprotected/forgot-password': {
+      id: '/_unprotected/forgot-password'
+      path: '/forgot-password'
+      fullPath: '/forgot-password'
+      preLoaderRoute: typeof UnprotectedForgotPasswordImport
+      parentRoute: typeof UnprotectedRouteImport
+    }
     '/_unprotected/login': {
       id: '/_unprotected/login'
       path: '/login'
@@ -121,6 +163,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof UnprotectedLogoutImport
       parentRoute: typeof UnprotectedRouteImport
     }
+    '/_unprotected/register': {
+      id: '/_unprotected/register'
+      path: '/register'
+      fullPath: '/register'
+      preLoaderRoute: typeof UnprotectedRegisterImport
+      parentRoute: typeof UnprotectedRouteImport
+    }
+    '/_unprotected/status': {
+      id: '/_unprotected/status'
+      path: '/status'
+      fullPath: '/status'
+      preLoaderRoute: typeof UnprotectedStatusImport
+      parentRoute: typeof UnprotectedRouteImport
+    }
     '/_protected/': {
       id: '/_protected/'
       path: '/'
@@ -135,12 +191,14 @@ declare module '@tanstack/react-router' {
 
 interface ProtectedRouteRouteChildren {
   ProtectedAccountRoute: typeof ProtectedAccountRoute
+  ProtectedSessionsRoute: typeof ProtectedSessionsRoute
   ProtectedUsersRoute: typeof ProtectedUsersRoute
   ProtectedIndexRoute: typeof ProtectedIndexRoute
 }
 
 const ProtectedRouteRouteChildren: ProtectedRouteRouteChildren = {
   ProtectedAccountRoute: ProtectedAccountRoute,
+  ProtectedSessionsRoute: ProtectedSessionsRoute,
   ProtectedUsersRoute: ProtectedUsersRoute,
   ProtectedIndexRoute: ProtectedIndexRoute,
 }
@@ -151,14 +209,20 @@ const ProtectedRouteRouteWithChildren = ProtectedRouteRoute._addFileChildren(
 
 interface UnprotectedRouteRouteChildren {
   UnprotectedAuthenticatingRoute: typeof UnprotectedAuthenticatingRoute
+  UnprotectedForgotPasswordRoute: typeof UnprotectedForgotPasswordRoute
   UnprotectedLoginRoute: typeof UnprotectedLoginRoute
   UnprotectedLogoutRoute: typeof UnprotectedLogoutRoute
+  UnprotectedRegisterRoute: typeof UnprotectedRegisterRoute
+  UnprotectedStatusRoute: typeof UnprotectedStatusRoute
 }
 
 const UnprotectedRouteRouteChildren: UnprotectedRouteRouteChildren = {
   UnprotectedAuthenticatingRoute: UnprotectedAuthenticatingRoute,
+  UnprotectedForgotPasswordRoute: UnprotectedForgotPasswordRoute,
   UnprotectedLoginRoute: UnprotectedLoginRoute,
   UnprotectedLogoutRoute: UnprotectedLogoutRoute,
+  UnprotectedRegisterRoute: UnprotectedRegisterRoute,
+  UnprotectedStatusRoute: UnprotectedStatusRoute,
 }
 
 const UnprotectedRouteRouteWithChildren =
@@ -167,20 +231,28 @@ const UnprotectedRouteRouteWithChildren =
 export interface FileRoutesByFullPath {
   '': typeof UnprotectedRouteRouteWithChildren
   '/account': typeof ProtectedAccountRoute
+  '/sessions': typeof ProtectedSessionsRoute
   '/users': typeof ProtectedUsersRoute
   '/authenticating': typeof UnprotectedAuthenticatingRoute
+  '/forgot-password': typeof UnprotectedForgotPasswordRoute
   '/login': typeof UnprotectedLoginRoute
   '/logout': typeof UnprotectedLogoutRoute
+  '/register': typeof UnprotectedRegisterRoute
+  '/status': typeof UnprotectedStatusRoute
   '/': typeof ProtectedIndexRoute
 }
 
 export interface FileRoutesByTo {
   '': typeof UnprotectedRouteRouteWithChildren
   '/account': typeof ProtectedAccountRoute
+  '/sessions': typeof ProtectedSessionsRoute
   '/users': typeof ProtectedUsersRoute
   '/authenticating': typeof UnprotectedAuthenticatingRoute
+  '/forgot-password': typeof UnprotectedForgotPasswordRoute
   '/login': typeof UnprotectedLoginRoute
   '/logout': typeof UnprotectedLogoutRoute
+  '/register': typeof UnprotectedRegisterRoute
+  '/status': typeof UnprotectedStatusRoute
   '/': typeof ProtectedIndexRoute
 }
 
@@ -189,10 +261,14 @@ export interface FileRoutesById {
   '/_protected': typeof ProtectedRouteRouteWithChildren
   '/_unprotected': typeof UnprotectedRouteRouteWithChildren
   '/_protected/account': typeof ProtectedAccountRoute
+  '/_protected/sessions': typeof ProtectedSessionsRoute
   '/_protected/users': typeof ProtectedUsersRoute
   '/_unprotected/authenticating': typeof UnprotectedAuthenticatingRoute
+  '/_unprotected/forgot-password': typeof UnprotectedForgotPasswordRoute
   '/_unprotected/login': typeof UnprotectedLoginRoute
   '/_unprotected/logout': typeof UnprotectedLogoutRoute
+  '/_unprotected/register': typeof UnprotectedRegisterRoute
+  '/_unprotected/status': typeof UnprotectedStatusRoute
   '/_protected/': typeof ProtectedIndexRoute
 }
 
@@ -201,29 +277,41 @@ export interface FileRouteTypes {
   fullPaths:
     | ''
     | '/account'
+    | '/sessions'
     | '/users'
     | '/authenticating'
+    | '/forgot-password'
     | '/login'
     | '/logout'
+    | '/register'
+    | '/status'
     | '/'
   fileRoutesByTo: FileRoutesByTo
   to:
     | ''
     | '/account'
+    | '/sessions'
     | '/users'
     | '/authenticating'
+    | '/forgot-password'
     | '/login'
     | '/logout'
+    | '/register'
+    | '/status'
     | '/'
   id:
     | '__root__'
     | '/_protected'
     | '/_unprotected'
     | '/_protected/account'
+    | '/_protected/sessions'
     | '/_protected/users'
     | '/_unprotected/authenticating'
+    | '/_unprotected/forgot-password'
     | '/_unprotected/login'
     | '/_unprotected/logout'
+    | '/_unprotected/register'
+    | '/_unprotected/status'
     | '/_protected/'
   fileRoutesById: FileRoutesById
 }
@@ -256,6 +344,7 @@ export const routeTree = rootRoute
       "filePath": "_protected/route.tsx",
       "children": [
         "/_protected/account",
+        "/_protected/sessions",
         "/_protected/users",
         "/_protected/"
       ]
@@ -264,14 +353,21 @@ export const routeTree = rootRoute
       "filePath": "_unprotected/route.tsx",
       "children": [
         "/_unprotected/authenticating",
+        "/_unprotected/forgot-password",
         "/_unprotected/login",
-        "/_unprotected/logout"
+        "/_unprotected/logout",
+        "/_unprotected/register",
+        "/_unprotected/status"
       ]
     },
     "/_protected/account": {
       "filePath": "_protected/account.tsx",
       "parent": "/_protected"
     },
+    "/_protected/sessions": {
+      "filePath": "_protected/sessions.tsx",
+      "parent": "/_protected"
+    },
     "/_protected/users": {
       "filePath": "_protected/users.tsx",
       "parent": "/_protected"
@@ -280,6 +376,10 @@ export const routeTree = rootRoute
       "filePath": "_unprotected/authenticating.tsx",
       "parent": "/_unprotected"
     },
+    "/_unprotected/forgot-password": {
+      "filePath": "_unprotected/forgot-password.tsx",
+      "parent": "/_unprotected"
+    },
     "/_unprotected/login": {
       "filePath": "_unprotected/login.tsx",
       "parent": "/_unprotected"
@@ -288,6 +388,14 @@ export const routeTree = rootRoute
       "filePath": "_unprotected/logout.tsx",
       "parent": "/_unprotected"
     },
+    "/_unprotected/register": {
+      "filePath": "_unprotected/register.tsx",
+      "parent": "/_unprotected"
+    },
+    "/_unprotected/status": {
+      "filePath": "_unprotected/status.tsx",
+      "parent": "/_unprotected"
+    },
     "/_protected/": {
       "filePath": "_protected/index.tsx",
       "parent": "/_protected"
@@ -1,5 +1,6 @@
 import { createRouter } from "@tanstack/react-router";
 import { routeTree } from "./routeTree.gen";
+import type { RoleType } from "./domains/role";
 
 /**
  * # Register
@@ -10,6 +11,14 @@ declare module "@tanstack/react-router" {
   interface Register {
     router: typeof router;
   }
+
+  /**
+   * Static route data. `roles` lists the roles allowed to open the route, a
+   * route without `roles` is open to every authenticated user.
+   */
+  interface StaticDataRouteOption {
+    roles?: readonly RoleType[];
+  }
 }
 
 /**
@@ -1,6 +1,7 @@
 import * as React from 'react'
 import { Outlet, createRootRouteWithContext } from '@tanstack/react-router'
 import TanStackDevTools from '@/components/TanStackDevTools';
+import { ConnectionBanner } from '@/components/ConnectionBanner';
 import type { useAuthentication } from '@/components/AuthenticationProvider';
 import type { QueryClient } from '@tanstack/react-query';
 
@@ -42,6 +43,7 @@ export const Route = createRootRouteWithContext<MyRouterContext>()({
 function RootComponent() {
   return (
     <React.Fragment>
+      <ConnectionBanner />
       <Outlet />
       <TanStackDevTools />
     </React.Fragment>
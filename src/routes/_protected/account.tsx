@@ -1,3 +1,5 @@
+import { ChangePasswordCard } from '@/components/ChangePasswordCard'
+import { ActiveSessionsCard } from '@/components/sessions/ActiveSessionsCard'
 import { createFileRoute } from '@tanstack/react-router'
 
 export const Route = createFileRoute('/_protected/account')({
@@ -5,5 +7,10 @@ export const Route = createFileRoute('/_protected/account')({
 })
 
 function AccountRouteComponent() {
-  return <div>Hello "/_protected/account"!</div>
+  return (
+    <div className="container mx-auto flex flex-col gap-6 py-10">
+      <ActiveSessionsCard />
+      <ChangePasswordCard />
+    </div>
+  )
 }
@@ -4,17 +4,33 @@
  * # Protected Layout (Pathless) Route
  *
  * This component is wrapped around all components in its parent (`/_protected`) folder
+ *
+ * Child routes can limit who opens them with `staticData: { roles: [...] }`.
+ * The roles are checked here, and a `ForbiddenError` renders the 403 page
+ * inside the layout.
  */
 
 import { AppHeader } from "@/components/AppHeader";
+import { useAuthentication } from "@/components/AuthenticationProvider";
+import { Forbidden } from "@/components/Forbidden";
+import { IdleTimeoutDialog } from "@/components/IdleTimeoutDialog";
+import { ForbiddenError, requireRole } from "@/lib/requireRole";
 import Logger from "@/logger";
-import { createFileRoute, Outlet, redirect } from "@tanstack/react-router";
+import {
+  createFileRoute,
+  ErrorComponent,
+  Outlet,
+  redirect,
+  useNavigate,
+  type ErrorComponentProps,
+} from "@tanstack/react-router";
+import { useEffect } from "react";
 
 // Import the logger instance
 const log = Logger.getInstance();
 
 export const Route = createFileRoute("/_protected")({
-  beforeLoad: async ({ context, location }) => {
+  beforeLoad: async ({ context, location, matches }) => {
     log.silly("Before protected layout load...");
 
     // If the user is not authenticated, redirect to the authenticating page.
@@ -24,26 +40,60 @@ export const Route = createFileRoute("/_protected")({
       throw redirect({
         to: "/authenticating",
         search: {
-          redirect: encodeURIComponent(location.href) as
-            | "/"
-            | "/account"
-            | "/users",
+          // The router encodes search params, so the href is passed as is. It
+          // keeps the search of the page, like the page of the users table
+          redirect: location.href,
         },
       });
     }
+
+    // Check the roles of the matched child routes
+    requireRole(context.authentication.currentUser?.role, matches);
   },
   component: ProtectedRouteComponent,
+  errorComponent: ProtectedErrorComponent,
 });
 
 function ProtectedRouteComponent() {
   log.silly("ProtectedRouteComponent rendered");
 
+  const { logoutReason } = useAuthentication();
+  const navigate = useNavigate();
+
+  // Leave the protected pages once the session ends on its own
+  useEffect(() => {
+    if (logoutReason) {
+      navigate({ to: "/logout", search: { reason: logoutReason } });
+    }
+  }, [logoutReason, navigate]);
+
+  return (
+    <ProtectedLayout>
+      <Outlet />
+      <IdleTimeoutDialog />
+    </ProtectedLayout>
+  );
+}
+
+function ProtectedErrorComponent(props: ErrorComponentProps) {
+  if (props.error instanceof ForbiddenError) {
+    log.warn("Forbidden route:", props.error.message);
+
+    return (
+      <ProtectedLayout>
+        <Forbidden />
+      </ProtectedLayout>
+    );
+  }
+
+  return <ErrorComponent {...props} />;
+}
+
+function ProtectedLayout({ children }: { children: React.ReactNode }) {
   return (
     <div className="flex min-h-screen flex-col">
       <AppHeader />
-      <main className="flex-grow p-4">
-        <Outlet />
-      </main>
+      <main className="flex-grow p-4">{children}</main>
       <footer className="bg-gray-800 text-white p-4">
         <p>&copy; 2023 My Application. All rights reserved.</p>
       </footer>
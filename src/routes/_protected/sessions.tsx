@@ -0,0 +1,96 @@
+//-- ./src/routes/_protected/sessions.tsx
+
+/**
+ * # Sessions Route
+ *
+ * Admin page listing every session on the backend, with per-row revoke and
+ * delete actions. The current page is held in the URL search params.
+ */
+
+import { useAuthentication } from "@/components/AuthenticationProvider";
+import { columns } from "@/components/sessions/Column";
+import { SessionsDataTable } from "@/components/sessions/DataTable";
+import { Role } from "@/domains/role";
+import { errorMessage } from "@/lib/errors";
+import Logger from "@/logger";
+import { useSessionsIndexQuery } from "@/queries/sessions";
+import { createFileRoute } from "@tanstack/react-router";
+import { z } from "zod";
+
+/**
+ * Create a new logger object
+ *
+ * @type {Logger}
+ */
+const log: Logger = Logger.getInstance();
+
+/**
+ * Number of sessions to request per page
+ */
+const SESSIONS_PER_PAGE = 10;
+
+// URL search schema to validate against
+const sessionsSearchSchema = z.object({
+  page: z.number().int().min(1).catch(1),
+});
+
+export const Route = createFileRoute("/_protected/sessions")({
+  // Only admins can manage sessions
+  staticData: { roles: [Role.Admin] },
+  validateSearch: (search) => sessionsSearchSchema.parse(search),
+  component: SessionsRouteComponent,
+});
+
+function SessionsRouteComponent() {
+  // Grab authentication global context (scope) from the context provider
+  const { accessToken } = useAuthentication();
+
+  const { page } = Route.useSearch();
+  const navigate = Route.useNavigate();
+
+  const { data, isLoading, error, isError } = useSessionsIndexQuery({
+    page,
+    perPage: SESSIONS_PER_PAGE,
+  });
+
+  // Return early if no access token
+  if (!accessToken) {
+    return <div>Please log in to view sessions</div>;
+  }
+
+  if (isLoading) {
+    return (
+      <div role="status" aria-live="polite">
+        Loading sessions...
+      </div>
+    );
+  }
+
+  if (isError) {
+    log.error("Error loading sessions:", error);
+    return (
+      <div role="alert" aria-live="assertive">
+        <h2>Error</h2>
+        <p>
+          Failed to load sessions:{" "}
+          {errorMessage(error)}
+        </p>
+      </div>
+    );
+  }
+
+  const sessions = data?.sessions ?? [];
+
+  return (
+    <div className="container mx-auto py-10">
+      <SessionsDataTable
+        columns={columns}
+        data={sessions}
+        page={page}
+        // A full page suggests there may be more rows on the backend
+        hasNextPage={sessions.length === SESSIONS_PER_PAGE}
+        onPageChange={(nextPage) => navigate({ search: { page: nextPage } })}
+      />
+    </div>
+  );
+}
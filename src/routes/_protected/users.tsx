@@ -1,9 +1,14 @@
 import { useAuthentication } from "@/components/AuthenticationProvider";
 import { columns } from "@/components/users/Column";
 import { UsersDataTable } from "@/components/users/DataTable";
+import { Role } from "@/domains/role";
+import { errorMessage } from "@/lib/errors";
 import Logger from "@/logger";
-import { useUsersIndexQuery } from "@/queries/users";
+import { usersIndexQueryOptions, useUsersIndexQuery } from "@/queries/users";
+import { useQueryClient } from "@tanstack/react-query";
 import { createFileRoute } from "@tanstack/react-router";
+import { useEffect } from "react";
+import { z } from "zod";
 
 /**
  * Create a new logger object
@@ -12,7 +17,25 @@ import { createFileRoute } from "@tanstack/react-router";
  */
 const log: Logger = Logger.getInstance();
 
+/**
+ * Page sizes offered by the users table
+ */
+const USERS_PAGE_SIZES = [10, 20, 50, 100] as const;
+
+// URL search schema to validate against
+const usersSearchSchema = z.object({
+  page: z.number().int().min(1).catch(1),
+  perPage: z
+    .number()
+    .int()
+    .refine((value) => USERS_PAGE_SIZES.some((size) => size === value))
+    .catch(USERS_PAGE_SIZES[0]),
+});
+
 export const Route = createFileRoute("/_protected/users")({
+  // Only admins can manage users
+  staticData: { roles: [Role.Admin] },
+  validateSearch: (search) => usersSearchSchema.parse(search),
   component: RouteComponent,
 });
 
@@ -20,7 +43,24 @@ function RouteComponent() {
   // Grab authentication global context (scope) from the context provider
   const { accessToken } = useAuthentication();
 
-  const { data, isLoading, error, isError } = useUsersIndexQuery(accessToken ?? undefined);
+  const { page, perPage } = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, isPlaceholderData, error, isError } =
+    useUsersIndexQuery({ page, perPage });
+
+  // A full page suggests there may be more rows on the backend
+  const hasNextPage = data?.users.length === perPage;
+
+  // Prefetch the next page so paging forward is instant
+  useEffect(() => {
+    if (!accessToken || !hasNextPage || isPlaceholderData) return;
+
+    queryClient.prefetchQuery(
+      usersIndexQueryOptions({ page: page + 1, perPage })
+    );
+  }, [accessToken, hasNextPage, isPlaceholderData, page, perPage, queryClient]);
 
   // Return early if no access token
   if (!accessToken) {
@@ -42,7 +82,7 @@ function RouteComponent() {
         <h2>Error</h2>
         <p>
           Failed to load users:{" "}
-          {error instanceof Error ? error.message : "Unknown error"}
+          {errorMessage(error)}
         </p>
       </div>
     );
@@ -50,7 +90,15 @@ function RouteComponent() {
 
   return (
     <div className="container mx-auto py-10">
-      <UsersDataTable columns={columns} data={data?.users ?? []} />
+      <UsersDataTable
+        columns={columns}
+        data={data?.users ?? []}
+        page={page}
+        perPage={perPage}
+        pageSizes={USERS_PAGE_SIZES}
+        hasNextPage={hasNextPage && !isPlaceholderData}
+        onPaginationChange={(search) => navigate({ search })}
+      />
     </div>
   );
 }
@@ -8,6 +8,7 @@
  */
 
 import { useAuthentication } from "@/components/AuthenticationProvider";
+import { redirectSearchSchema } from "@/lib/redirect";
 import Logger from "@/logger";
 import {
   createFileRoute,
@@ -15,21 +16,11 @@ import {
 } from "@tanstack/react-router";
 import { Loader2 } from "lucide-react";
 import { useEffect } from "react";
-import { z } from "zod";
 
 
 // Import the logger instance
 const log = Logger.getInstance();
 
-// Improve type safety by defining the redirect paths
-type RedirectPath = "/" | "/account" | "/users";
-
-
-// URL search schema to validate against
-const redirectSearchSchema = z.object({
-  redirect: z.enum(["/", "/account", "/users"]).catch("/"),
-});
-
 /**
  * # Define Tanstack Router route
  */
@@ -60,8 +51,8 @@ function AuthenticatingRouteComponent() {
       if (isAuthenticated) {
         log.debug("Current user authenticated, redirecting.");
         
-        // Navigate to application entry point
-        router.navigate({ to: redirect as RedirectPath });
+        // Navigate to the page that was opened, with its search params
+        router.navigate({ href: redirect });
       } else {
         log.debug(
           "Unable to authenticate current user, redirecting to login page."
@@ -71,7 +62,7 @@ function AuthenticatingRouteComponent() {
         router.navigate({
           to: "/login",
           search: {
-            redirect: redirect as RedirectPath,
+            redirect,
           },
         });
       }
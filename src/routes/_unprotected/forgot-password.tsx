@@ -0,0 +1,36 @@
+import { ForgotPasswordForm } from "@/components/ForgotPasswordForm";
+import Logger from "@/logger";
+import { createFileRoute, redirect } from "@tanstack/react-router";
+import { z } from "zod";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+// URL search schema to validate against, the email is pre-filled from the login form
+const forgotPasswordSearchSchema = z.object({
+  email: z.string().optional().catch(undefined),
+});
+
+export const Route = createFileRoute("/_unprotected/forgot-password")({
+  validateSearch: (search) => forgotPasswordSearchSchema.parse(search),
+  beforeLoad: async ({ context }) => {
+    log.silly("Before load forgot password component route");
+    if (context.authentication.currentUser) {
+      log.silly("User is already authenticated, redirecting to /");
+      throw redirect({
+        to: "/",
+      });
+    }
+  },
+  component: ForgotPasswordRouteComponent,
+});
+
+function ForgotPasswordRouteComponent() {
+  const { email } = Route.useSearch();
+
+  return (
+    <div className="w-full max-w-sm">
+      <ForgotPasswordForm email={email} />
+    </div>
+  );
+}
@@ -1,23 +1,57 @@
+import type { LogoutReason } from "@/components/AuthenticationProvider";
 import { LogOutCard } from "@/components/LogoutCard";
 import Logger from "@/logger";
 import { createFileRoute } from "@tanstack/react-router";
+import { z } from "zod";
 
 // Import the logger instance
 const log = Logger.getInstance();
 
+// URL search schema to validate against, `reason` is set when the session
+// ended without the user logging out
+const logoutSearchSchema = z.object({
+  reason: z
+    .enum(["expired", "idle", "revoked"] satisfies [
+      LogoutReason,
+      LogoutReason,
+      LogoutReason,
+    ])
+    .optional()
+    .catch(undefined),
+});
+
 export const Route = createFileRoute("/_unprotected/logout")({
+  validateSearch: (search) => logoutSearchSchema.parse(search),
   beforeLoad: async ({ context }) => {
     log.silly("Before logout route load...");
 
-    context.authentication.handleLogout();
+    // An expired session has already been cleared, there is nothing to log out
+    if (context.authentication.isAuthenticated) {
+      try {
+        await context.authentication.handleLogout();
+      } catch (error) {
+        // The session has ended in the browser, the logout page warns that it
+        // may still be open on the backend
+        log.error("Unable to log out:", error);
+        return { isBackendLogoutFailed: true };
+      }
+    }
+
+    return { isBackendLogoutFailed: false };
   },
   component: LogoutRouteComponent,
 });
 
 function LogoutRouteComponent() {
+  const { reason } = Route.useSearch();
+  const { isBackendLogoutFailed } = Route.useRouteContext();
+
   return (
     <div className="w-full max-w-sm md:max-w-3xl">
-      <LogOutCard />
+      <LogOutCard
+        reason={reason}
+        isBackendLogoutFailed={isBackendLogoutFailed}
+      />
     </div>
   );
 }
@@ -0,0 +1,27 @@
+import { RegisterForm } from "@/components/RegisterForm";
+import Logger from "@/logger";
+import { createFileRoute, redirect } from "@tanstack/react-router";
+
+// Import the logger instance
+const log = Logger.getInstance();
+
+export const Route = createFileRoute("/_unprotected/register")({
+  beforeLoad: async ({ context }) => {
+    log.silly("Before load register component route");
+    if (context.authentication.currentUser) {
+      log.silly("User is already authenticated, redirecting to /");
+      throw redirect({
+        to: "/",
+      });
+    }
+  },
+  component: RegisterRouteComponent,
+});
+
+function RegisterRouteComponent() {
+  return (
+    <div className="w-full max-w-sm">
+      <RegisterForm />
+    </div>
+  );
+}
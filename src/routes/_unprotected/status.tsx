@@ -0,0 +1,16 @@
+import { DiagnosticsCard } from "@/components/DiagnosticsCard";
+import { createFileRoute } from "@tanstack/react-router";
+
+// Open to everyone, signed in or not, so users can check the connection when
+// they can not sign in
+export const Route = createFileRoute("/_unprotected/status")({
+  component: StatusRouteComponent,
+});
+
+function StatusRouteComponent() {
+  return (
+    <div className="w-full max-w-sm md:max-w-3xl">
+      <DiagnosticsCard />
+    </div>
+  );
+}
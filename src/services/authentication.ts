@@ -18,10 +18,59 @@ import {
   LoginRequest,
   LogoutResponse,
   RefreshResponse,
+  RegisterRequest,
+  ResetPasswordRequest,
+  UpdatePasswordRequest,
   type LoginResponse,
+  type RegisterResponse,
+  type ResetPasswordResponse,
+  type UpdatePasswordResponse,
 } from "@/lib/grpc/authentication";
 import { Client } from "@/client";
 import { Empty } from "@/lib/grpc/common";
+import type { RpcOptions } from "@protobuf-ts/runtime-rpc";
+import { ServiceError } from "@/lib/errors";
+
+/**
+ * The operations of the service that can fail
+ */
+type AuthenticationServiceOperation =
+  | "login"
+  | "refresh"
+  | "logout"
+  | "register"
+  | "resetPassword"
+  | "updatePassword";
+
+/**
+ * # Authentication Service Error
+ *
+ * The AuthenticationServiceError class is used to define errors that occur in the authentication service.
+ */
+export class AuthenticationServiceError extends ServiceError<AuthenticationServiceOperation> {
+  constructor(
+    message: string,
+    operation: AuthenticationServiceOperation,
+    originalError?: unknown
+  ) {
+    super(message, operation, originalError);
+    this.name = "AuthenticationServiceError";
+  }
+}
+
+/**
+ * # Error Messages
+ *
+ * The ERROR_MESSAGES object is used to define error messages that occur in the authentication service.
+ */
+const ERROR_MESSAGES = {
+  LOGIN_FAILED: "Failed to sign in",
+  REFRESH_FAILED: "Failed to refresh the session",
+  LOGOUT_FAILED: "Failed to sign out",
+  REGISTER_FAILED: "Failed to register",
+  RESET_PASSWORD_FAILED: "Failed to request a password reset",
+  UPDATE_PASSWORD_FAILED: "Failed to update password",
+} as const;
 
 /**
  * Create a new logger object
@@ -51,7 +100,7 @@ export async function sendLoginRequest(
    * Send login request to authentication client
    */
   try {
-    const client = await Client.new();
+    const client = await Client.getInstance();
     const authentication_client = client.authenticationClient();
 
     /**
@@ -74,7 +123,11 @@ export async function sendLoginRequest(
     return response.response;
   } catch (error) {
     log.error("Error sending login request:", error);
-    throw error; // Re-throw the error to be handled by the caller
+    throw new AuthenticationServiceError(
+      ERROR_MESSAGES.LOGIN_FAILED,
+      "login",
+      error
+    );
   }
 }
 
@@ -84,28 +137,37 @@ export async function sendLoginRequest(
  * This function request a refresh of the access token from the authentication
  * client. Returning a new access token
  *
+ * @param options - Options of the refresh call
  * @returns <RefreshResponse>: a new access token
  */
-export async function sendRefreshRequest(): Promise<RefreshResponse> {
+export async function sendRefreshRequest(
+  options?: RpcOptions
+): Promise<RefreshResponse> {
   log.debug("Sending refresh request for a new access token.");
   /**
    * Send refresh request to authentication client
    */
   try {
-    const client = await Client.new();
+    const client = await Client.getInstance();
     const authentication_client = client.authenticationClient();
 
     const request_message: Empty = {};
 
-    const { response: refresh_response } =
-      await authentication_client.refresh(request_message);
+    const { response: refresh_response } = await authentication_client.refresh(
+      request_message,
+      options
+    );
 
     log.debug("Refresh response is: ", refresh_response);
 
     return refresh_response;
   } catch (error) {
     log.error("Refresh service request failed with:", error);
-    throw error; // Re-throw the error to be handled by the caller
+    throw new AuthenticationServiceError(
+      ERROR_MESSAGES.REFRESH_FAILED,
+      "refresh",
+      error
+    );
   }
 }
 
@@ -121,7 +183,7 @@ export async function sendLogoutRequest(): Promise<LogoutResponse> {
   log.debug("Send logout request to the authentication service");
 
   try {
-    const client = await Client.new();
+    const client = await Client.getInstance();
     const authentication_client = client.authenticationClient();
 
     const request_message: Empty = {};
@@ -133,7 +195,136 @@ export async function sendLogoutRequest(): Promise<LogoutResponse> {
 
     return logout_response;
   } catch (error) {
-    log.error("Error sending refresh request:", error);
-    throw error; // Re-throw the error to be handled by the caller
+    log.error("Error sending logout request:", error);
+    throw new AuthenticationServiceError(
+      ERROR_MESSAGES.LOGOUT_FAILED,
+      "logout",
+      error
+    );
+  }
+}
+
+/**
+ * # Send Register Request
+ *
+ * This function requests the registration of a new user account with the
+ * authentication service. The response message describes the outcome of the
+ * registration, for example that the account is waiting on verification.
+ *
+ * @param email
+ * @param password
+ * @returns <RegisterResponse>: the success status and message
+ */
+export async function sendRegisterRequest(
+  email: string,
+  password: string
+): Promise<RegisterResponse> {
+  log.info("Sending register request to server.");
+
+  try {
+    const client = await Client.getInstance();
+    const authentication_client = client.authenticationClient();
+
+    const request_message: RegisterRequest = {
+      email,
+      password,
+    };
+
+    const { response: register_response } =
+      await authentication_client.register(request_message);
+
+    log.debug("Register response is: ", register_response);
+
+    return register_response;
+  } catch (error) {
+    log.error("Error sending register request:", error);
+    throw new AuthenticationServiceError(
+      ERROR_MESSAGES.REGISTER_FAILED,
+      "register",
+      error
+    );
+  }
+}
+
+/**
+ * # Send Reset Password Request
+ *
+ * This function asks the authentication service to start a password reset for
+ * the given email. The service response should not be used to tell whether an
+ * account exists for the email.
+ *
+ * @param email
+ * @returns <ResetPasswordResponse>: the success status and message
+ */
+export async function sendResetPasswordRequest(
+  email: string
+): Promise<ResetPasswordResponse> {
+  log.info("Sending reset password request to server.");
+
+  try {
+    const client = await Client.getInstance();
+    const authentication_client = client.authenticationClient();
+
+    const request_message: ResetPasswordRequest = {
+      email,
+    };
+
+    const { response: reset_response } =
+      await authentication_client.resetPassword(request_message);
+
+    log.debug("Reset password response is: ", reset_response);
+
+    return reset_response;
+  } catch (error) {
+    log.error("Error sending reset password request:", error);
+    throw new AuthenticationServiceError(
+      ERROR_MESSAGES.RESET_PASSWORD_FAILED,
+      "resetPassword",
+      error
+    );
+  }
+}
+
+/**
+ * # Send Update Password Request
+ *
+ * This function requests a password change for the given email. The original
+ * password must be provided along with the new password.
+ *
+ * @param email
+ * @param passwordOriginal
+ * @param passwordNew
+ * @returns <UpdatePasswordResponse>: the success status and message
+ */
+export async function sendUpdatePasswordRequest(
+  email: string,
+  passwordOriginal: string,
+  passwordNew: string
+): Promise<UpdatePasswordResponse> {
+  log.info("Sending update password request to server.");
+
+  try {
+    const client = await Client.getInstance();
+    const authentication_client = client.authenticationClient();
+
+    const request_message: UpdatePasswordRequest = {
+      email,
+      passwordOriginal,
+      passwordNew,
+    };
+
+    const { response: update_response } =
+      await authentication_client.updatePassword(request_message);
+
+    log.debug("Update password response is: ", update_response);
+
+    return update_response;
+  } catch (error) {
+    log.error("Error sending update password request:", error);
+    throw new AuthenticationServiceError(
+      ERROR_MESSAGES.UPDATE_PASSWORD_FAILED,
+      "updatePassword",
+      error
+    );
   }
 }
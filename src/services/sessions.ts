@@ -0,0 +1,375 @@
+//-- ./src/services/sessions.ts
+
+/**
+ * # Sessions Service
+ *
+ * The sessions service is responsible for requesting and managing user session
+ * data on the backend.
+ */
+
+import { Client } from "@/client";
+import { ServiceError } from "@/lib/errors";
+import { Empty } from "@/lib/grpc/common";
+import type {
+  SessionsDeleteResponse,
+  SessionsIndexResponse,
+  SessionsResponse,
+  SessionsRevokeResponse,
+} from "@/lib/grpc/sessions";
+import Logger from "@/logger";
+
+/**
+ * # Index Sessions Params
+ *
+ * The IndexSessionsParams type is used to define the parameters required for indexing sessions.
+ */
+export type IndexSessionsParams = {
+  /**
+   * The limit for the number of sessions to return
+   */
+  limit: bigint;
+
+  /**
+   * The offset for the number of sessions to skip
+   */
+  offset: bigint;
+};
+
+/**
+ * The operations of the service that can fail
+ */
+type SessionsServiceOperation =
+  | "init"
+  | "read"
+  | "index"
+  | "revoke"
+  | "revokeUser"
+  | "revokeAll"
+  | "delete"
+  | "deleteUser"
+  | "deleteAll";
+
+/**
+ * # Sessions Service Error
+ *
+ * The SessionsServiceError class is used to define errors that occur in the sessions service.
+ */
+export class SessionsServiceError extends ServiceError<SessionsServiceOperation> {
+  constructor(
+    message: string,
+    operation: SessionsServiceOperation,
+    originalError?: unknown
+  ) {
+    super(message, operation, originalError);
+    this.name = "SessionsServiceError";
+  }
+}
+
+/**
+ * # Error Messages
+ *
+ * The ERROR_MESSAGES object is used to define error messages that occur in the sessions service.
+ */
+const ERROR_MESSAGES = {
+  INIT_FAILED: "Failed to initialize SessionsService",
+  READ_FAILED: "Failed to read session",
+  INDEX_FAILED: "Failed to index sessions",
+  REVOKE_FAILED: "Failed to revoke session",
+  REVOKE_USER_FAILED: "Failed to revoke user sessions",
+  REVOKE_ALL_FAILED: "Failed to revoke all sessions",
+  DELETE_FAILED: "Failed to delete session",
+  DELETE_USER_FAILED: "Failed to delete user sessions",
+  DELETE_ALL_FAILED: "Failed to delete all sessions",
+} as const;
+
+/**
+ * Create a new logger object
+ *
+ * @type {Logger}
+ */
+const log: Logger = Logger.getInstance();
+
+/**
+ * # Sessions Service
+ *
+ * The SessionsService class is responsible for handling session-related operations
+ * with the backend such as reading, revoking and deleting sessions.
+ *
+ * @class SessionsService
+ * @implements Singleton pattern for managing a single instance of the service
+ *
+ * ## Example
+ *
+ * ```typescript
+ * import { SessionsService } from "@/services/sessions";
+ *
+ * const sessionsService = await SessionsService.getInstance();
+ *
+ * const { rowsAffected } = await sessionsService.revoke(sessionId);
+ * ```
+ */
+export class SessionsService {
+  /**
+   * The client to be used for making grpc requests
+   *
+   * @type {Client}
+   */
+  private sessionsClient: ReturnType<Client["sessionsClient"]>;
+
+  /**
+   * Singleton instance of SessionsService
+   *
+   * @type {SessionsService}
+   */
+  private static instance: SessionsService;
+
+  /**
+   * Private constructor to prevent instantiation
+   *
+   * @param client - The client to be used for making requests
+   */
+  private constructor(client: Client) {
+    this.sessionsClient = client.sessionsClient();
+  }
+
+  /**
+   * Get the singleton instance of the SessionsService
+   *
+   * @returns The singleton instance of SessionsService
+   */
+  public static async getInstance(): Promise<SessionsService> {
+    if (!SessionsService.instance) {
+      try {
+        const client = await Client.getInstance();
+        SessionsService.instance = new SessionsService(client);
+      } catch (error) {
+        log.error("Failed to initialize SessionsService:", error);
+        throw new SessionsServiceError(
+          ERROR_MESSAGES.INIT_FAILED,
+          "init",
+          error
+        );
+      }
+    }
+    return SessionsService.instance;
+  }
+
+  /**
+   * # Read Session
+   *
+   * Reads a session from the backend.
+   *
+   * @param id - The ID string of the session to read and return
+   * @param signal - Cancels the request when aborted
+   * @throws {SessionsServiceError} If session read fails
+   * @returns Promise resolving to the grpc `SessionsResponse`
+   */
+  async read(id: string, signal?: AbortSignal): Promise<SessionsResponse> {
+    try {
+      const { response } = await this.sessionsClient.read(
+        { id },
+        { abort: signal }
+      );
+
+      return response;
+    } catch (error) {
+      log.error("Error sending read session request:", error);
+
+      // Re-throw a custom error to be handled by the caller
+      throw new SessionsServiceError(ERROR_MESSAGES.READ_FAILED, "read", error);
+    }
+  }
+
+  /**
+   * # Index Sessions
+   *
+   * Reads an index of sessions from the backend.
+   *
+   * @param limit - The maximum number of sessions to return
+   * @param offset - The number of sessions to skip
+   * @param signal - Cancels the request when aborted
+   * @throws {SessionsServiceError} If index read fails
+   * @returns Promise resolving to the grpc `SessionsIndexResponse`
+   */
+  async index(
+    { limit, offset }: IndexSessionsParams,
+    signal?: AbortSignal
+  ): Promise<SessionsIndexResponse> {
+    try {
+      const { response } = await this.sessionsClient.index(
+        { limit, offset },
+        { abort: signal }
+      );
+
+      return response;
+    } catch (error) {
+      log.error("Error sending index sessions request:", error);
+
+      // Re-throw a custom error to be handled by the caller
+      throw new SessionsServiceError(
+        ERROR_MESSAGES.INDEX_FAILED,
+        "index",
+        error
+      );
+    }
+  }
+
+  /**
+   * # Revoke Session
+   *
+   * Revokes a session in the backend. The session is kept, but marked inactive
+   * and its refresh token can no longer be used.
+   *
+   * @param id - The ID string of the session to revoke
+   * @throws {SessionsServiceError} If revoking fails
+   * @returns Promise resolving to the grpc `SessionsRevokeResponse`
+   */
+  async revoke(id: string): Promise<SessionsRevokeResponse> {
+    try {
+      const { response } = await this.sessionsClient.revoke({ id });
+
+      return response;
+    } catch (error) {
+      log.error("Error sending revoke session request:", error);
+
+      // Re-throw a custom error to be handled by the caller
+      throw new SessionsServiceError(
+        ERROR_MESSAGES.REVOKE_FAILED,
+        "revoke",
+        error
+      );
+    }
+  }
+
+  /**
+   * # Revoke User Sessions
+   *
+   * Revokes all sessions belonging to a user in the backend.
+   *
+   * @param userId - The ID string of the user whose sessions are revoked
+   * @throws {SessionsServiceError} If revoking fails
+   * @returns Promise resolving to the grpc `SessionsRevokeResponse`
+   */
+  async revokeUser(userId: string): Promise<SessionsRevokeResponse> {
+    try {
+      const { response } = await this.sessionsClient.revokeUser({ userId });
+
+      return response;
+    } catch (error) {
+      log.error("Error sending revoke user sessions request:", error);
+
+      // Re-throw a custom error to be handled by the caller
+      throw new SessionsServiceError(
+        ERROR_MESSAGES.REVOKE_USER_FAILED,
+        "revokeUser",
+        error
+      );
+    }
+  }
+
+  /**
+   * # Revoke All Sessions
+   *
+   * Revokes every session in the backend.
+   *
+   * @throws {SessionsServiceError} If revoking fails
+   * @returns Promise resolving to the grpc `SessionsRevokeResponse`
+   */
+  async revokeAll(): Promise<SessionsRevokeResponse> {
+    try {
+      const { response } = await this.sessionsClient.revokeAll(
+        Empty.create({})
+      );
+
+      return response;
+    } catch (error) {
+      log.error("Error sending revoke all sessions request:", error);
+
+      // Re-throw a custom error to be handled by the caller
+      throw new SessionsServiceError(
+        ERROR_MESSAGES.REVOKE_ALL_FAILED,
+        "revokeAll",
+        error
+      );
+    }
+  }
+
+  /**
+   * # Delete Session
+   *
+   * Deletes a session from the backend.
+   *
+   * @param id - The ID string of the session to delete
+   * @throws {SessionsServiceError} If deletion fails
+   * @returns Promise resolving to the grpc `SessionsDeleteResponse`
+   */
+  async delete(id: string): Promise<SessionsDeleteResponse> {
+    try {
+      const { response } = await this.sessionsClient.delete({ id });
+
+      return response;
+    } catch (error) {
+      log.error("Error sending delete session request:", error);
+
+      // Re-throw a custom error to be handled by the caller
+      throw new SessionsServiceError(
+        ERROR_MESSAGES.DELETE_FAILED,
+        "delete",
+        error
+      );
+    }
+  }
+
+  /**
+   * # Delete User Sessions
+   *
+   * Deletes all sessions belonging to a user from the backend.
+   *
+   * @param userId - The ID string of the user whose sessions are deleted
+   * @throws {SessionsServiceError} If deletion fails
+   * @returns Promise resolving to the grpc `SessionsDeleteResponse`
+   */
+  async deleteUser(userId: string): Promise<SessionsDeleteResponse> {
+    try {
+      const { response } = await this.sessionsClient.deleteUser({ userId });
+
+      return response;
+    } catch (error) {
+      log.error("Error sending delete user sessions request:", error);
+
+      // Re-throw a custom error to be handled by the caller
+      throw new SessionsServiceError(
+        ERROR_MESSAGES.DELETE_USER_FAILED,
+        "deleteUser",
+        error
+      );
+    }
+  }
+
+  /**
+   * # Delete All Sessions
+   *
+   * Deletes every session from the backend. This is a destructive operation.
+   *
+   * @throws {SessionsServiceError} If deletion fails
+   * @returns Promise resolving to the grpc `SessionsDeleteResponse`
+   */
+  async deleteAll(): Promise<SessionsDeleteResponse> {
+    try {
+      const { response } = await this.sessionsClient.deleteAll(
+        Empty.create({})
+      );
+
+      return response;
+    } catch (error) {
+      log.error("Error sending delete all sessions request:", error);
+
+      // Re-throw a custom error to be handled by the caller
+      throw new SessionsServiceError(
+        ERROR_MESSAGES.DELETE_ALL_FAILED,
+        "deleteAll",
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { UserResponse } from "@/lib/grpc/users";
+import { mockMethods, recordedCallsTo } from "@/test/transport";
+import { RpcError } from "@protobuf-ts/runtime-rpc";
+import { describe, expect, it } from "vitest";
+import { UsersService, UsersServiceError } from "./users";
+
+const userResponse = UserResponse.create({
+  id: "0191f2a0-0000-7000-8000-000000000002",
+  email: "user@example.com",
+  name: "Regular User",
+  role: "user",
+});
+
+describe("UsersService", () => {
+  it("returns the user read", async () => {
+    mockMethods({ Read: { response: userResponse } });
+
+    const usersService = await UsersService.getInstance();
+
+    await expect(usersService.read(userResponse.id)).resolves.toEqual(
+      userResponse
+    );
+    expect(recordedCallsTo("Read")[0]?.input).toEqual({ id: userResponse.id });
+  });
+
+  it("wraps a failed read in a UsersServiceError", async () => {
+    const rpcError = new RpcError("User%20not%20found", "NOT_FOUND");
+    mockMethods({ Read: { response: rpcError } });
+
+    const usersService = await UsersService.getInstance();
+    const error = await usersService.read(userResponse.id).catch((e) => e);
+
+    expect(error).toBeInstanceOf(UsersServiceError);
+    expect(error).toMatchObject({
+      name: "UsersServiceError",
+      operation: "read",
+      kind: "notFound",
+      code: "NOT_FOUND",
+      detail: "User not found",
+      originalError: rpcError,
+    });
+  });
+
+  it("wraps a network failure in a UsersServiceError", async () => {
+    mockMethods({
+      Index: { response: new RpcError("Failed to fetch", "INTERNAL") },
+    });
+
+    const usersService = await UsersService.getInstance();
+    const error = await usersService
+      .index({ limit: 10n, offset: 0n })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(UsersServiceError);
+    expect(error).toMatchObject({ operation: "index", kind: "network" });
+  });
+
+  it("wraps a failed delete in a UsersServiceError", async () => {
+    mockMethods({
+      Delete: {
+        response: new RpcError("Requires the admin role", "PERMISSION_DENIED"),
+      },
+    });
+
+    const usersService = await UsersService.getInstance();
+
+    await expect(usersService.delete(userResponse.id)).rejects.toMatchObject({
+      name: "UsersServiceError",
+      operation: "delete",
+      kind: "permissionDenied",
+    });
+  });
+});
@@ -7,9 +7,12 @@
  */
 
 import { Client } from "@/client";
+import type { RoleType } from "@/domains/role";
+import { ServiceError } from "@/lib/errors";
 import type {
   CreateUserRequest,
   DeleteUserResponse,
+  UpdateUserRequest,
   UserIndexResponse,
   UserResponse,
 } from "@/lib/grpc/users";
@@ -39,8 +42,7 @@ export type CreateUserParams = {
   /**
    * The role of the user
    */
-  // TODO this needs to be an enum type in domains
-  role: string;
+  role: RoleType;
 
   /**
    * Whether the user is active
@@ -70,9 +72,9 @@ export type IndexUsersParams = {
 /**
  * # Update User Params
  *
- * The UpdateUserParams type is used to define the parameters required for updating a user. This adds to the CreateUserParams by adding the id string of the user.
+ * The UpdateUserParams type is used to define the parameters required for updating a user. This is the CreateUserParams without the password, plus the id string of the user. Passwords are changed through the authentication service.
  */
-export type UpdateUserParams = CreateUserParams & {
+export type UpdateUserParams = Omit<CreateUserParams, "password"> & {
   id: string;
 };
 
@@ -81,24 +83,29 @@ export type UpdateUserParams = CreateUserParams & {
 //   INDEX_OFFSET: 0n,
 // } as const;
 
+/**
+ * The operations of the service that can fail
+ */
+type UsersServiceOperation =
+  | "init"
+  | "create"
+  | "read"
+  | "index"
+  | "update"
+  | "delete";
+
 /**
  * # User Service Error
  *
  * The UserServiceError class is used to define errors that occur in the user service.
  */
-export class UsersServiceError extends Error {
+export class UsersServiceError extends ServiceError<UsersServiceOperation> {
   constructor(
     message: string,
-    public operation:
-      | "init"
-      | "create"
-      | "read"
-      | "index"
-      | "update"
-      | "delete",
-    public originalError?: unknown
+    operation: UsersServiceOperation,
+    originalError?: unknown
   ) {
-    super(message);
+    super(message, operation, originalError);
     this.name = "UsersServiceError";
   }
 }
@@ -180,10 +187,10 @@ export class UsersService {
    * @param client - The client to be used for making requests
    * @returns The singleton instance of UsersService
    */
-  public static async getInstance(accessToken?: string): Promise<UsersService> {
+  public static async getInstance(): Promise<UsersService> {
     if (!UsersService.instance) {
       try {
-        const client = await Client.new(accessToken);
+        const client = await Client.getInstance();
         UsersService.instance = new UsersService(client);
       } catch (error) {
         log.error("Failed to initialize UsersService:", error);
@@ -243,15 +250,18 @@ export class UsersService {
    * Reads a user from the backend.
    *
    * @param id - The ID string of the user to read and return
+   * @param signal - Cancels the request when aborted
    * @throws {UserServiceError} If user read fails
    * @returns Promise resolving to the grpc `UserResponse`
    */
-  async read(id: string): Promise<UserResponse> {
+  async read(id: string, signal?: AbortSignal): Promise<UserResponse> {
     try {
       const read_user_request = {
         id: id,
       };
-      const { response } = await this.usersClient.read(read_user_request);
+      const { response } = await this.usersClient.read(read_user_request, {
+        abort: signal,
+      });
 
       return response;
     } catch (error) {
@@ -269,16 +279,22 @@ export class UsersService {
    *
    * @param limit - The maximum number of users to return
    * @param offset - The number of users to skip
+   * @param signal - Cancels the request when aborted
    * @throws {UserServiceError} If index read fails
    * @returns Promise resolving to the grpc `UserIndexResponse`
    */
-  async index({ limit, offset }: IndexUsersParams): Promise<UserIndexResponse> {
+  async index(
+    { limit, offset }: IndexUsersParams,
+    signal?: AbortSignal
+  ): Promise<UserIndexResponse> {
     try {
       const indexUsersRequest = {
         limit,
         offset,
       };
-      const { response } = await this.usersClient.index(indexUsersRequest);
+      const { response } = await this.usersClient.index(indexUsersRequest, {
+        abort: signal,
+      });
 
       return response;
     } catch (error) {
@@ -300,11 +316,10 @@ export class UsersService {
    */
   async update(params: UpdateUserParams): Promise<UserResponse> {
     try {
-      const updateUserRequest = {
+      const updateUserRequest: UpdateUserRequest = {
         id: params.id,
         email: params.email,
         name: params.name,
-        password: params.password,
         role: params.role,
         isActive: params.isActive,
         isVerified: params.isVerified,
@@ -0,0 +1,52 @@
+import { mockMethods } from "@/test/transport";
+import { RpcError } from "@protobuf-ts/runtime-rpc";
+import { describe, expect, it } from "vitest";
+import { UtilitiesService, UtilitiesServiceError } from "./utilities";
+
+describe("UtilitiesService.ping", () => {
+  it("returns the response when the status is OK", async () => {
+    mockMethods({
+      Ping: {
+        response: { message: "Pong" },
+        status: { code: "OK", detail: "" },
+      },
+    });
+
+    const utilitiesService = await UtilitiesService.getInstance();
+
+    await expect(utilitiesService.ping()).resolves.toEqual({ message: "Pong" });
+  });
+
+  it("fails when the status is not OK", async () => {
+    mockMethods({
+      Ping: {
+        response: { message: "Pong" },
+        status: { code: "UNAVAILABLE", detail: "Shutting down" },
+      },
+    });
+
+    const utilitiesService = await UtilitiesService.getInstance();
+
+    await expect(utilitiesService.ping()).rejects.toMatchObject({
+      name: "UtilitiesServiceError",
+      operation: "ping",
+    });
+  });
+
+  it("wraps a failed call in a UtilitiesServiceError", async () => {
+    mockMethods({
+      Ping: {
+        response: new RpcError("Deadline exceeded", "DEADLINE_EXCEEDED"),
+      },
+    });
+
+    const utilitiesService = await UtilitiesService.getInstance();
+    const error = await utilitiesService.ping().catch((e) => e);
+
+    expect(error).toBeInstanceOf(UtilitiesServiceError);
+    expect(error).toMatchObject({
+      operation: "ping",
+      kind: "deadlineExceeded",
+    });
+  });
+});
@@ -7,17 +7,24 @@
  */
 
 import { Client } from "@/client";
+import { ServiceError } from "@/lib/errors";
 import { Empty } from "@/lib/grpc/common";
 import type { PingResponse } from "@/lib/grpc/utilities";
 import Logger from "@/logger";
+import { GrpcStatusCode } from "@protobuf-ts/grpcweb-transport";
 
-export class UtilitiesServiceError extends Error {
+/**
+ * The operations of the service that can fail
+ */
+type UtilitiesServiceOperation = "init" | "ping";
+
+export class UtilitiesServiceError extends ServiceError<UtilitiesServiceOperation> {
   constructor(
     message: string,
-    public operation: "init" | "ping",
-    public originalError?: unknown
+    operation: UtilitiesServiceOperation,
+    originalError?: unknown
   ) {
-    super(message);
+    super(message, operation, originalError);
     this.name = "UtilitiesServiceError";
   }
 }
@@ -27,11 +34,6 @@ const ERROR_MESSAGES = {
   PING_FAILED: "Failed to send ping request",
 } as const;
 
-const GRPC_STATUS = {
-  OK: "0",
-  ERROR: "2",
-} as const;
-
 /**
  * # Utilities Service
  * 
@@ -84,7 +86,7 @@ export class UtilitiesService {
   public static async getInstance(): Promise<UtilitiesService> {
     if (!UtilitiesService.instance) {
       try {
-        const client = await Client.new();
+        const client = await Client.getInstance();
         UtilitiesService.instance = new UtilitiesService(client);
         this.log.info("UtilitiesService initialised successfully");
       } catch (error) {
@@ -102,14 +104,22 @@ export class UtilitiesService {
     return UtilitiesService.instance;
   }
 
-  async ping(): Promise<PingResponse> {
+  /**
+   * # Ping
+   *
+   * @param signal - Cancels the request when aborted
+   * @returns Promise resolving to the grpc `PingResponse`
+   */
+  async ping(signal?: AbortSignal): Promise<PingResponse> {
     try {
       const requestMessage = Empty.create({});
-      const { response, status } =
-        await this.utilitiesClient.ping(requestMessage);
+      const { response, status } = await this.utilitiesClient.ping(
+        requestMessage,
+        { abort: signal }
+      );
 
-      // Check if the response is valid and status is OK (0)
-      if (!response || status?.code !== GRPC_STATUS.OK) {
+      // Check if the response is valid and status is OK
+      if (!response || status?.code !== GrpcStatusCode[GrpcStatusCode.OK]) {
         throw new UtilitiesServiceError(
           ERROR_MESSAGES.PING_FAILED,
           "ping",
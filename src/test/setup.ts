@@ -0,0 +1,24 @@
+//-- ./src/test/setup.ts
+
+/**
+ * # Unit Test Setup
+ *
+ * Runs before every test file. Services get the test client instead of a
+ * transport to the backend, and rendered components are removed after each
+ * test.
+ */
+
+import "@testing-library/jest-dom/vitest";
+import { Client } from "@/client";
+import { cleanup } from "@testing-library/react";
+import { afterEach, beforeEach, vi } from "vitest";
+import { resetTestTransport, testClient } from "./transport";
+
+beforeEach(() => {
+  vi.spyOn(Client, "getInstance").mockResolvedValue(testClient);
+});
+
+afterEach(() => {
+  cleanup();
+  resetTestTransport();
+});
@@ -0,0 +1,123 @@
+//-- ./src/test/transport.ts
+
+/**
+ * # Test Transport
+ *
+ * Answers the calls of the generated clients in unit tests. Each method is
+ * answered by a protobuf-ts `TestTransport` with the mock data given to
+ * `mockMethods`, methods without mock data get the `TestTransport` defaults.
+ *
+ * @example
+ * mockMethods({
+ *   Read: { response: new RpcError("Not found", "NOT_FOUND") },
+ * });
+ */
+
+import { Client } from "@/client";
+import { AuthenticationServiceClient } from "@/lib/grpc/authentication.client";
+import { SessionsServiceClient } from "@/lib/grpc/sessions.client";
+import { UsersServiceClient } from "@/lib/grpc/users.client";
+import { UtilitiesServiceClient } from "@/lib/grpc/utilities.client";
+import {
+  mergeRpcOptions,
+  TestTransport,
+  type MethodInfo,
+  type RpcMetadata,
+  type RpcOptions,
+  type RpcTransport,
+} from "@protobuf-ts/runtime-rpc";
+
+/**
+ * The mock data of a single method
+ */
+export type MethodMockData = ConstructorParameters<typeof TestTransport>[0];
+
+/**
+ * A call answered by the test transport
+ */
+export type RecordedCall = {
+  method: string;
+  input: object;
+  meta: RpcMetadata;
+};
+
+let methodMocks: Record<string, MethodMockData> = {};
+
+let recordedCalls: RecordedCall[] = [];
+
+/**
+ * # Mock Methods
+ *
+ * Set how the methods are answered, keyed by the method name from the proto
+ * file. Replaces the mocks set before.
+ */
+export function mockMethods(mocks: Record<string, MethodMockData>) {
+  methodMocks = mocks;
+}
+
+/**
+ * The calls answered since the last `resetTestTransport`, oldest first
+ */
+export function recordedCallsTo(method: string): RecordedCall[] {
+  return recordedCalls.filter((call) => call.method === method);
+}
+
+/**
+ * # Reset Test Transport
+ *
+ * Forget the mocks and the recorded calls, run after each test.
+ */
+export function resetTestTransport() {
+  methodMocks = {};
+  recordedCalls = [];
+}
+
+/**
+ * Hands each call to a new `TestTransport` with the method's mock data
+ */
+const testTransport: RpcTransport = {
+  mergeOptions(options?: Partial<RpcOptions>): RpcOptions {
+    return mergeRpcOptions({}, options);
+  },
+  unary(method: MethodInfo, input, options) {
+    recordedCalls.push({
+      method: method.name,
+      input,
+      meta: options.meta ?? {},
+    });
+    return new TestTransport(methodMocks[method.name]).unary(
+      method,
+      input,
+      options
+    );
+  },
+  serverStreaming(method, input, options) {
+    return new TestTransport(methodMocks[method.name]).serverStreaming(
+      method,
+      input,
+      options
+    );
+  },
+  clientStreaming(method, options) {
+    return new TestTransport(methodMocks[method.name]).clientStreaming(
+      method,
+      options
+    );
+  },
+  duplex(method, options) {
+    return new TestTransport(methodMocks[method.name]).duplex(method, options);
+  },
+};
+
+/**
+ * # Test Client
+ *
+ * The client returned by `Client.getInstance()` in unit tests. It has no
+ * interceptors, so each call is answered once.
+ */
+export const testClient = new Client(
+  new AuthenticationServiceClient(testTransport),
+  new SessionsServiceClient(testTransport),
+  new UsersServiceClient(testTransport),
+  new UtilitiesServiceClient(testTransport)
+);
@@ -0,0 +1,122 @@
+//-- ./tests/e2e/authentication.spec.ts
+
+import { expect, test } from "@playwright/test";
+import {
+  ADMIN,
+  fakeRefreshCookie,
+  INACTIVE_USER,
+  login,
+  submitLogin,
+  USER,
+} from "./helpers";
+
+test.describe("login", () => {
+  test("signs in and opens the home page", async ({ page }) => {
+    await login(page, USER);
+
+    await expect(page.getByText('Hello "/"!')).toBeVisible();
+    await expect(
+      page.getByRole("link", { name: "Logout", exact: true })
+    ).toBeVisible();
+  });
+
+  test("shows an error for a wrong password", async ({ page }) => {
+    await page.goto("/login");
+    await submitLogin(page, { ...USER, password: "wrong-password" });
+
+    await expect(page.getByRole("alert")).toContainText(
+      "Incorrect email or password."
+    );
+    await expect(page).toHaveURL("/login");
+  });
+
+  test("shows an error for a deactivated account", async ({ page }) => {
+    await page.goto("/login");
+    await submitLogin(page, INACTIVE_USER);
+
+    await expect(page.getByRole("alert")).toContainText(
+      "This account is not allowed to sign in."
+    );
+  });
+});
+
+test.describe("authenticating", () => {
+  test("sends a signed out user to the login page", async ({ page }) => {
+    await page.goto("/authenticating?redirect=%2Faccount");
+
+    await expect(page).toHaveURL(/\/login\?redirect=%2Faccount$/);
+  });
+
+  test("sends a signed in user to the redirect", async ({ page }) => {
+    await login(page, USER);
+
+    await page.goto("/authenticating?redirect=%2Faccount");
+
+    await expect(page).toHaveURL("/account");
+  });
+
+  test("ignores a redirect outside the application", async ({ page }) => {
+    await login(page, USER);
+
+    await page.goto("/authenticating?redirect=https%3A%2F%2Fexample.com%2F");
+
+    await expect(page).toHaveURL("/");
+  });
+});
+
+test.describe("protected routes", () => {
+  test("keep the requested page through login", async ({ page }) => {
+    await page.goto("/users");
+
+    await expect(page).toHaveURL(/\/login\?redirect=%2Fusers$/);
+
+    await submitLogin(page, ADMIN);
+
+    await expect(page).toHaveURL(/\/users/);
+  });
+
+  test("keep the search params of the requested page", async ({ page }) => {
+    await page.goto("/users?page=2&perPage=20");
+
+    await expect(page).toHaveURL(
+      /\/login\?redirect=%2Fusers%3Fpage%3D2%26perPage%3D20$/
+    );
+
+    await submitLogin(page, ADMIN);
+
+    await expect(page).toHaveURL("/users?page=2&perPage=20");
+  });
+});
+
+test.describe("logout", () => {
+  test("ends the session", async ({ page }) => {
+    await login(page, USER);
+
+    await page.getByRole("link", { name: "Logout", exact: true }).click();
+
+    await expect(page).toHaveURL(/\/logout/);
+    await expect(page.getByText("Logged Out")).toBeVisible();
+
+    // The fake backend removes the refresh cookie when it answers the logout
+    await expect.poll(() => fakeRefreshCookie(page)).toBeUndefined();
+
+    // The refresh cookie is gone, so the session can not be restored
+    await page.goto("/account");
+
+    await expect(page).toHaveURL(/\/login\?redirect=%2Faccount$/);
+  });
+});
+
+test.describe("reload", () => {
+  test("keeps the user signed in with the refresh cookie", async ({ page }) => {
+    await login(page, USER);
+
+    await page.goto("/account");
+    await page.reload();
+
+    await expect(page).toHaveURL("/account");
+    await expect(
+      page.getByRole("link", { name: "Logout", exact: true })
+    ).toBeVisible();
+  });
+});
@@ -0,0 +1,60 @@
+//-- ./tests/e2e/helpers.ts
+
+// # End-to-End Test Helpers
+//
+// Accounts seeded by the fake backend, see `src/lib/fakeBackend.ts`.
+
+import { expect, type Page } from "@playwright/test";
+
+// Where the fake backend keeps its state, in local storage
+const FAKE_BACKEND_STORAGE_KEY = "fake_backend_state";
+
+export type Account = {
+  email: string;
+  password: string;
+};
+
+export const ADMIN: Account = {
+  email: "admin@example.com",
+  password: "password1234",
+};
+
+export const USER: Account = {
+  email: "user@example.com",
+  password: "password1234",
+};
+
+export const INACTIVE_USER: Account = {
+  email: "inactive@example.com",
+  password: "password1234",
+};
+
+/**
+ * Fill in and submit the login form, the page must show it already
+ */
+export async function submitLogin(page: Page, { email, password }: Account) {
+  await page.getByLabel("Email").fill(email);
+  await page.getByLabel("Password").fill(password);
+  await page.getByRole("button", { name: "Login", exact: true }).click();
+}
+
+/**
+ * Sign in from the login page and wait for the home page
+ */
+export async function login(page: Page, account: Account) {
+  await page.goto("/login");
+  await submitLogin(page, account);
+  await expect(page).toHaveURL("/");
+}
+
+/**
+ * The refresh cookie held by the fake backend, undefined once logged out
+ */
+export async function fakeRefreshCookie(
+  page: Page
+): Promise<string | undefined> {
+  return page.evaluate((key) => {
+    const state = JSON.parse(localStorage.getItem(key) ?? "{}");
+    return state.refreshCookie;
+  }, FAKE_BACKEND_STORAGE_KEY);
+}
@@ -0,0 +1,45 @@
+//-- ./tests/e2e/users.spec.ts
+
+import { expect, test } from "@playwright/test";
+import { ADMIN, login, USER } from "./helpers";
+
+test("lists the users for an admin", async ({ page }) => {
+  await login(page, ADMIN);
+
+  await page.getByRole("link", { name: "Users", exact: true }).click();
+
+  const table = page.getByRole("table");
+  await expect(table.getByRole("cell", { name: ADMIN.email })).toBeVisible();
+  await expect(table.getByRole("cell", { name: USER.email })).toBeVisible();
+  await expect(
+    table.getByRole("cell", { name: "inactive@example.com" })
+  ).toBeVisible();
+});
+
+test("is forbidden for other roles", async ({ page }) => {
+  await login(page, USER);
+
+  await expect(
+    page.getByRole("link", { name: "Users", exact: true })
+  ).toBeHidden();
+
+  await page.goto("/users");
+
+  await expect(page.getByText("403 - Forbidden")).toBeVisible();
+});
+
+test("does not let an admin select their own account", async ({ page }) => {
+  await login(page, ADMIN);
+
+  await page.goto("/users");
+
+  const ownRow = page.getByRole("row").filter({ hasText: ADMIN.email });
+  const otherRow = page.getByRole("row").filter({ hasText: USER.email });
+
+  await expect(
+    ownRow.getByRole("checkbox", { name: "Select row" })
+  ).toBeDisabled();
+  await expect(
+    otherRow.getByRole("checkbox", { name: "Select row" })
+  ).toBeEnabled();
+});
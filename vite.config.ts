@@ -89,6 +89,13 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    rollupOptions: {
+      // The fake backend is only used by the development server, its import is
+      // dead code in a build. Rollup would still emit the module as a chunk
+      external: [path.resolve(__dirname, "./src/lib/fakeTransport.ts")],
+    },
+  },
   server: {
     host: "localhost:5173",
     port: 5173,
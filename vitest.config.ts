@@ -0,0 +1,26 @@
+//-- ./vitest.config.ts
+
+// # Vitest Configuration
+//
+// Unit tests run in jsdom with the Vite configuration, so the `@` alias and the
+// React plugin work as in the application. Calls never reach the network, the
+// setup file answers them from protobuf-ts test transports.
+//
+// https://vitest.dev/config/
+
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    test: {
+      environment: "jsdom",
+      include: ["src/**/*.test.{ts,tsx}"],
+      setupFiles: ["src/test/setup.ts"],
+      restoreMocks: true,
+      // Tests cover failures on purpose, keep their logs out of the output
+      env: { VITE_LOG_LEVEL: "fatal" },
+    },
+  })
+);